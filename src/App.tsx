@@ -1,214 +1,315 @@
-import { Download, Edit2Icon, PanelRightOpen, Upload, X } from "lucide-react"
+import { Check, EyeOff, PanelRightOpen } from "lucide-react"
 import { useEffect, useMemo, useRef, useState } from "react"
+import { BulkTagDialog } from "./components/BulkTagDialog"
+import { BackupControls } from "./components/BackupControls"
+import { CommandPalette, type PaletteCommand } from "./components/CommandPalette"
+import { DiagnosticsDialog } from "./components/DiagnosticsDialog"
+import { HotkeysDialog } from "./components/HotkeysDialog"
+import { type DeletedTag, ManageTagsDialog } from "./components/ManageTagsDialog"
+import { PresetBar } from "./components/PresetBar"
+import { RulesDialog } from "./components/RulesDialog"
+import { TitleFilterBar } from "./components/TitleFilterBar"
 import { Badge } from "./components/ui/badge"
 import { Button } from "./components/ui/button"
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogTitle,
-  DialogTrigger,
-} from "./components/ui/dialog"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "./components/ui/dialog"
 import { Input } from "./components/ui/input"
 import { Popover, PopoverAnchor, PopoverContent } from "./components/ui/popover"
-import { normalizeChannelUrl } from "./lib/utils"
+import {
+  addChannelAliases,
+  type ChannelAliasMap,
+  type ChannelMetaMap,
+  type ChannelSighting,
+  type ChannelTagMap,
+  getChannelRecords,
+  getChannelTags,
+  migrateChannelMeta,
+  migrateChannelTags,
+  recordChannelSighting,
+  resolveChannelKey,
+} from "./lib/channels"
+import type { DiagnosticsReport } from "./lib/diagnostics"
+import {
+  cycleTagFilter,
+  EMPTY_TAG_FILTER,
+  getTagFilterState,
+  isTagFilterActive,
+  pruneTagFilter,
+  replaceTagInFilter,
+  type TagFilter,
+  UNTAGGED_TAG_ID,
+} from "./lib/filters"
+import {
+  DEFAULT_HOTKEYS,
+  findHotkeyAction,
+  formatHotkey,
+  HOTKEY_ACTIONS,
+  type HotkeyAction,
+  type HotkeyMap,
+  isTypingTarget,
+} from "./lib/hotkeys"
+import {
+  createPreset,
+  type FilterPreset,
+  getPresetFilters,
+  getPresetHash,
+  getPresetIdFromHash,
+  presetMatches,
+} from "./lib/presets"
+import {
+  getSuggestedChannelTags,
+  type RuleCondition,
+  type RuleMatchPreview,
+  replaceTagInRules,
+  type TagRule,
+} from "./lib/rules"
+import {
+  createSettingsSaver,
+  DEFAULT_TAGS,
+  getStorageStatus,
+  loadSettings,
+  onSettingsChange,
+  onSettingsConflict,
+  onStorageStatusChange,
+  retrySyncStorage,
+  type Settings,
+  type StorageStatus,
+} from "./lib/storage"
+import {
+  DEFAULT_SURFACE_FILTERS,
+  FEED_ARRANGEMENTS,
+  getSurface,
+  mapSurfaceTagFilters,
+  SURFACES,
+  type Surface,
+  type SurfaceFilter,
+  type SurfaceFilters,
+} from "./lib/surfaces"
+import {
+  flattenTagTree,
+  getChannelsWithTag,
+  getTagAncestors,
+  getTagPath,
+  getTagWithDescendants,
+  mergeTagInto,
+  moveTag,
+  nextTagColor,
+  removeTagFromChannels,
+  reparentChildren,
+  slugify,
+  uniqueId,
+} from "./lib/tags"
+import type { TitleRule } from "./lib/titles"
+import type { ContentTypeFilters, DurationFilter, Tag, WatchedFilter } from "./lib/types"
+import {
+  assignVideoTags,
+  getVideosWithTag,
+  mapVideoTagIds,
+  type VideoTagMap,
+  type VideoTagMode,
+} from "./lib/videos"
 
 type AppProps = {
   portalContainer: HTMLElement
 }
 
-type Tag = {
-  id: string
-  name: string
-  color: string
-}
-
-type ChannelTagMap = Record<string, string[]>
-
-type ContentTypeFilters = {
-  shorts: boolean
-  videos: boolean
-  live: boolean
-  upcoming: boolean
-}
-
-const DEFAULT_CONTENT_TYPES: ContentTypeFilters = {
-  videos: true,
-  live: true,
-  upcoming: true,
-  shorts: true,
-}
-
 type AssignDetail = {
   channelUrl: string
   channelName: string
+  /** Set when opened from a video card, which can also be tagged on its own. */
+  videoId?: string
+  videoTitle?: string
   x: number
   y: number
 }
 
-const DEFAULT_TAGS: Tag[] = [
-  { id: "racing", name: "Racing", color: "#7a5cff" },
-  { id: "games", name: "Games", color: "#30c4ff" },
-]
+type AssignScope = "channel" | "video"
 
-const TAGS_KEY = "ytx_tags"
-const CHANNEL_TAGS_KEY = "ytx_channel_tags"
-const CONTENT_TYPES_KEY = "ytx_content_types"
-const PANEL_OPEN_KEY = "ytx_panel_open"
-const ACTIVE_FILTERS_KEY = "ytx_active_filters"
+const UNDO_DELETE_MS = 8000
 
-function storageArea() {
-  if (typeof chrome !== "undefined" && chrome.storage?.sync) return chrome.storage.sync
-  if (typeof chrome !== "undefined" && chrome.storage?.local) return chrome.storage.local
-  return null
-}
+// State changes are saved in batches; sync storage only allows a few writes a second
+const settingsSaver = createSettingsSaver(1000)
 
-async function loadData(): Promise<{
-  tags: Tag[]
-  channelTags: ChannelTagMap
-  contentTypes: ContentTypeFilters
-  panelOpen: boolean
-  activeFilters: string[]
-}> {
-  const area = storageArea()
-  if (!area) {
-    return {
-      tags: DEFAULT_TAGS,
-      channelTags: {},
-      contentTypes: DEFAULT_CONTENT_TYPES,
-      panelOpen: true,
-      activeFilters: [],
-    }
-  }
+const WATCHED_MODES: [WatchedFilter["mode"], string][] = [
+  ["all", "Any progress"],
+  ["hide", "Hide watched"],
+  ["unwatched", "Unwatched only"],
+]
 
-  const result = await area.get([
-    TAGS_KEY,
-    CHANNEL_TAGS_KEY,
-    CONTENT_TYPES_KEY,
-    PANEL_OPEN_KEY,
-    ACTIVE_FILTERS_KEY,
-  ])
-  const tags = (result[TAGS_KEY] as Tag[] | undefined) ?? DEFAULT_TAGS
-  const channelTags = (result[CHANNEL_TAGS_KEY] as ChannelTagMap | undefined) ?? {}
-  const contentTypes =
-    (result[CONTENT_TYPES_KEY] as ContentTypeFilters | undefined) ?? DEFAULT_CONTENT_TYPES
-  const panelOpen = (result[PANEL_OPEN_KEY] as boolean | undefined) ?? true
-  const activeFilters = (result[ACTIVE_FILTERS_KEY] as string[] | undefined) ?? []
-  return { tags, channelTags, contentTypes, panelOpen, activeFilters }
-}
+// Percent watched at which "Hide watched" kicks in
+const WATCHED_THRESHOLDS: [number, string][] = [
+  [100, "Fully"],
+  [75, "Over 75%"],
+  [50, "Over 50%"],
+  [25, "Over 25%"],
+]
 
-async function saveData(
-  tags: Tag[],
-  channelTags: ChannelTagMap,
-  contentTypes: ContentTypeFilters,
-  panelOpen?: boolean,
-) {
-  const area = storageArea()
-  if (!area) return
-  const data: Record<string, unknown> = {
-    [TAGS_KEY]: tags,
-    [CHANNEL_TAGS_KEY]: channelTags,
-    [CONTENT_TYPES_KEY]: contentTypes,
-  }
-  if (panelOpen !== undefined) {
-    data[PANEL_OPEN_KEY] = panelOpen
-  }
-  await area.set(data)
-}
+const AGE_OPTIONS: [number | null, string][] = [
+  [null, "Any time"],
+  [1, "Today"],
+  [7, "Last 7 days"],
+  [30, "Last 30 days"],
+  [365, "Last year"],
+]
 
-async function savePanelOpen(panelOpen: boolean) {
-  const area = storageArea()
-  if (!area) return
-  await area.set({ [PANEL_OPEN_KEY]: panelOpen })
-}
+const SELECT_CLASS =
+  "h-9 rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--card))] px-2 text-base"
 
-function slugify(value: string) {
-  return value.trim().toLowerCase().replace(/\s+/g, "-")
+/** Minutes typed into a length bound; empty or invalid input leaves it open. */
+function parseMinutes(value: string): number | null {
+  const minutes = Number(value)
+  return value.trim() !== "" && Number.isFinite(minutes) && minutes >= 0 ? minutes : null
 }
 
-function uniqueId(base: string, existing: Tag[]) {
-  if (!existing.some((t) => t.id === base)) return base
-  let i = 2
-  while (existing.some((t) => t.id === `${base}-${i}`)) i += 1
-  return `${base}-${i}`
-}
+/**
+ * A length bound in minutes. Typing only edits the field; the filter changes
+ * when the field loses focus or Enter is pressed, not on every keystroke.
+ */
+function MinutesInput({
+  value,
+  onCommit,
+  placeholder,
+  title,
+}: {
+  value: number | null
+  onCommit: (minutes: number | null) => void
+  placeholder: string
+  title: string
+}) {
+  const [draft, setDraft] = useState(value === null ? "" : String(value))
+
+  // Follow changes made elsewhere, e.g. by applying a view
+  useEffect(() => {
+    setDraft(value === null ? "" : String(value))
+  }, [value])
+
+  const commit = () => {
+    const minutes = parseMinutes(draft)
+    if (minutes !== value) onCommit(minutes)
+  }
 
-function getChannelCountForTag(tagId: string, channelTags: ChannelTagMap): number {
-  return Object.values(channelTags).filter((tags) => tags.includes(tagId)).length
+  return (
+    <Input
+      type="number"
+      min={0}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === "Enter" && commit()}
+      placeholder={placeholder}
+      className="h-9 w-20"
+      title={title}
+    />
+  )
 }
 
-async function exportSettings(): Promise<void> {
-  const area = storageArea()
-  if (!area) {
-    alert("Storage not available")
-    return
-  }
-  const data = await area.get(null) // Get all keys
-  const json = JSON.stringify(data, null, 2)
-  const blob = new Blob([json], { type: "application/json" })
-  const url = URL.createObjectURL(blob)
-  const a = document.createElement("a")
-  a.href = url
-  a.download = `youtube-lens-backup-${new Date().toISOString().slice(0, 10)}.json`
-  a.click()
-  URL.revokeObjectURL(url)
+/** Videos from a tag that showed up in the subscriptions feed since the last visit. */
+function UnseenCount({ count }: { count: number | undefined }) {
+  if (!count) return null
+  return (
+    <span className="ml-1 font-bold text-[hsl(var(--secondary))]" title="New since last visit">
+      +{count}
+    </span>
+  )
 }
 
-async function importSettings(file: File): Promise<Record<string, unknown> | null> {
-  return new Promise((resolve) => {
-    const reader = new FileReader()
-    reader.onload = async (e) => {
-      try {
-        const data = JSON.parse(e.target?.result as string)
-        const area = storageArea()
-        if (!area) {
-          alert("Storage not available")
-          resolve(null)
-          return
-        }
-        await area.set(data)
-        resolve(data)
-      } catch {
-        alert("Invalid JSON file")
-        resolve(null)
-      }
-    }
-    reader.readAsText(file)
-  })
+/** Channels carrying any of `tagIds`, i.e. a tag or one of its descendants. */
+function getChannelCountForTag(tagIds: string[], channelTags: ChannelTagMap): number {
+  return Object.values(channelTags).filter((tags) => tags.some((id) => tagIds.includes(id))).length
 }
 
 export default function App({ portalContainer }: AppProps) {
   const [tags, setTags] = useState<Tag[]>(DEFAULT_TAGS)
-  const [activeTag, setActiveTag] = useState<string | null>(null)
-  const [newTag, setNewTag] = useState("")
   const [channelTags, setChannelTags] = useState<ChannelTagMap>({})
-  const [contentTypes, setContentTypes] =
-    useState<ContentTypeFilters>(DEFAULT_CONTENT_TYPES)
+  const [videoTags, setVideoTags] = useState<VideoTagMap>({})
+  const [aliases, setAliases] = useState<ChannelAliasMap>({})
+  const [channels, setChannels] = useState<ChannelMetaMap>({})
+  const [surfaces, setSurfaces] = useState<SurfaceFilters>(DEFAULT_SURFACE_FILTERS)
+  const [surface, setSurface] = useState<Surface | null>(() => getSurface(location.pathname))
 
   const [panelOpen, setPanelOpen] = useState(true)
   const [manageOpen, setManageOpen] = useState(false)
+  const [bulkOpen, setBulkOpen] = useState(false)
+  const [presets, setPresets] = useState<FilterPreset[]>([])
+  const [rules, setRules] = useState<TagRule[]>([])
+  const [rulesOpen, setRulesOpen] = useState(false)
+  const [rulePreview, setRulePreview] = useState<Record<string, RuleMatchPreview> | null>(null)
+  const [deletedTags, setDeletedTags] = useState<DeletedTag[]>([])
+  const [draggedTagId, setDraggedTagId] = useState<string | null>(null)
   const [assignOpen, setAssignOpen] = useState(false)
   const [assignChannel, setAssignChannel] = useState<AssignDetail | null>(null)
+  const [assignScope, setAssignScope] = useState<AssignScope>("channel")
+  const [storageStatus, setStorageStatus] = useState<StorageStatus | null>(null)
+  const [editsDropped, setEditsDropped] = useState(false)
+  const [retryError, setRetryError] = useState<string | null>(null)
+  const [loaded, setLoaded] = useState(false)
+  const [hiddenCount, setHiddenCount] = useState(0)
+  const [revealHidden, setRevealHidden] = useState(false)
+  const [titleHidden, setTitleHidden] = useState<Record<string, number>>({})
+  const [unseenCounts, setUnseenCounts] = useState<Record<string, number>>({})
+  const [hotkeys, setHotkeys] = useState<HotkeyMap>(DEFAULT_HOTKEYS)
+  const [hotkeysOpen, setHotkeysOpen] = useState(false)
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [diagnosticsOpen, setDiagnosticsOpen] = useState(false)
+  const [diagnostics, setDiagnostics] = useState<DiagnosticsReport | null>(null)
   const popoverRef = useRef<HTMLDivElement>(null)
-  const fileInputRef = useRef<HTMLInputElement>(null)
-
-  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
-    const data = await importSettings(file)
-    if (data) {
-      // Reload state from imported data
-      const imported = await loadData()
-      setTags(imported.tags)
-      setChannelTags(imported.channelTags)
-      setContentTypes(imported.contentTypes)
-      setPanelOpen(imported.panelOpen)
-      setActiveTag(imported.activeFilters.length > 0 ? imported.activeFilters[0] : null)
-    }
-    // Reset file input
-    if (fileInputRef.current) fileInputRef.current.value = ""
+
+  // Outside the supported surfaces (e.g. on channel pages) the panel edits the
+  // subscriptions feed filter
+  const editedSurface = surface ?? "subscriptions"
+  const { filter: tagFilter, contentTypes, watched, duration, maxAgeDays, titleRules, arrange } =
+    surfaces[editedSurface]
+
+  const updateSurface = (update: (current: SurfaceFilter) => Partial<SurfaceFilter>) => {
+    setSurfaces((prev) => ({
+      ...prev,
+      [editedSurface]: { ...prev[editedSurface], ...update(prev[editedSurface]) },
+    }))
+  }
+
+  const setTagFilter = (update: (prev: TagFilter) => TagFilter) => {
+    updateSurface((current) => ({ filter: update(current.filter) }))
   }
 
+  const applyImportedSettings = (next: Settings) => {
+    setTags(next.tags)
+    setChannelTags(next.channelTags)
+    setVideoTags(next.videoTags)
+    setAliases(next.aliases)
+    setChannels(next.channels)
+    setSurfaces(next.surfaces)
+    setPanelOpen(next.panelOpen)
+    setPresets(next.presets)
+    setRules(next.rules)
+    setHotkeys(next.hotkeys)
+  }
+
+  const currentSettings: Settings = useMemo(
+    () => ({
+      tags,
+      channelTags,
+      videoTags,
+      aliases,
+      channels,
+      surfaces,
+      panelOpen,
+      presets,
+      rules,
+      hotkeys,
+    }),
+    [
+      tags,
+      channelTags,
+      videoTags,
+      aliases,
+      channels,
+      surfaces,
+      panelOpen,
+      presets,
+      rules,
+      hotkeys,
+    ],
+  )
+
   // Close popover when mouse moves more than 100px away
   useEffect(() => {
     if (!assignOpen) return
@@ -237,26 +338,59 @@ export default function App({ portalContainer }: AppProps) {
 
   useEffect(() => {
     let mounted = true
-    loadData().then((data) => {
+    loadSettings().then((data) => {
       if (!mounted) return
       setTags(data.tags)
       setChannelTags(data.channelTags)
-      setContentTypes(data.contentTypes)
+      setVideoTags(data.videoTags)
+      setAliases(data.aliases)
+      setChannels(data.channels)
       setPanelOpen(data.panelOpen)
-      // Load single active filter (take first if array, or null)
-      const saved = data.activeFilters
-      setActiveTag(saved.length > 0 ? saved[0] : null)
+      setPresets(data.presets)
+      setRules(data.rules)
+      setHotkeys(data.hotkeys)
+      // A bookmarked #ytx-view=<id> overrides the last used filters
+      const linked = data.presets.find((p) => p.id === getPresetIdFromHash(location.hash))
+      const target = getSurface(location.pathname) ?? "subscriptions"
+      setSurfaces(
+        linked
+          ? {
+              ...data.surfaces,
+              [target]: { ...data.surfaces[target], ...getPresetFilters(linked, data.tags) },
+            }
+          : data.surfaces,
+      )
+      setLoaded(true)
     })
     return () => {
       mounted = false
     }
   }, [])
 
+  // Settings saved in other tabs replace this tab's copy, with edits the saver
+  // hasn't written yet merged in; each tab keeps its own panel open or closed
+  useEffect(
+    () =>
+      onSettingsChange((patch) => {
+        if (patch.tags) setTags(patch.tags)
+        if (patch.channelTags) setChannelTags(patch.channelTags)
+        if (patch.videoTags) setVideoTags(patch.videoTags)
+        if (patch.aliases) setAliases(patch.aliases)
+        if (patch.channels) setChannels(patch.channels)
+        if (patch.surfaces) setSurfaces(patch.surfaces)
+        if (patch.presets) setPresets(patch.presets)
+        if (patch.rules) setRules(patch.rules)
+        if (patch.hotkeys) setHotkeys(patch.hotkeys)
+      }),
+    [],
+  )
+
   useEffect(() => {
     const handler = (event: Event) => {
       const detail = (event as CustomEvent<AssignDetail>).detail
       if (!detail?.channelUrl) return
       setAssignChannel(detail)
+      setAssignScope("channel")
       setAssignOpen(true)
     }
 
@@ -265,63 +399,446 @@ export default function App({ portalContainer }: AppProps) {
   }, [])
 
   useEffect(() => {
-    saveData(tags, channelTags, contentTypes)
-  }, [tags, channelTags, contentTypes])
+    const handler = (event: Event) => {
+      setHiddenCount((event as CustomEvent<{ count: number }>).detail?.count ?? 0)
+    }
+    window.addEventListener("ytx-hidden-count", handler)
+    return () => window.removeEventListener("ytx-hidden-count", handler)
+  }, [])
 
   useEffect(() => {
-    savePanelOpen(panelOpen)
-  }, [panelOpen])
+    const handler = (event: Event) => {
+      const counts = (event as CustomEvent<{ counts: Record<string, number> }>).detail?.counts
+      setTitleHidden(counts ?? {})
+    }
+    window.addEventListener("ytx-title-hidden", handler)
+    return () => window.removeEventListener("ytx-title-hidden", handler)
+  }, [])
 
   useEffect(() => {
-    const area = storageArea()
-    if (area) {
-      // Save as array for backwards compatibility
-      area.set({ [ACTIVE_FILTERS_KEY]: activeTag ? [activeTag] : [] })
+    const handler = (event: Event) => {
+      const counts = (event as CustomEvent<{ counts: Record<string, number> }>).detail?.counts
+      setUnseenCounts(counts ?? {})
     }
-  }, [activeTag])
+    window.addEventListener("ytx-unseen-counts", handler)
+    return () => window.removeEventListener("ytx-unseen-counts", handler)
+  }, [])
 
   useEffect(() => {
+    const handler = () => setSurface(getSurface(location.pathname))
+    window.addEventListener("ytx-navigate", handler)
+    return () => window.removeEventListener("ytx-navigate", handler)
+  }, [])
+
+  useEffect(() => {
+    const handler = (event: Event) => {
+      const urls = (event as CustomEvent<{ urls: string[] }>).detail?.urls
+      if (!urls?.length) return
+      setAliases((prev) => addChannelAliases(prev, urls) ?? prev)
+    }
+
+    window.addEventListener("ytx-channel-aliases", handler)
+    return () => window.removeEventListener("ytx-channel-aliases", handler)
+  }, [])
+
+  useEffect(() => {
+    const handler = (event: Event) => {
+      const seen = (event as CustomEvent<{ channels: ChannelSighting[] }>).detail?.channels
+      if (!seen?.length) return
+      const now = Date.now()
+      setChannels((prev) => {
+        const next = { ...prev }
+        for (const sighting of seen) {
+          const key = resolveChannelKey(sighting.url, aliases)
+          next[key] = recordChannelSighting(next[key], sighting, now)
+        }
+        return next
+      })
+    }
+
+    window.addEventListener("ytx-channels-seen", handler)
+    return () => window.removeEventListener("ytx-channels-seen", handler)
+  }, [aliases])
+
+  // Newly learned aliases can reveal that two tagged URLs are one channel
+  useEffect(() => {
+    setChannelTags((prev) => migrateChannelTags(prev, aliases))
+    setChannels((prev) => migrateChannelMeta(prev, aliases))
+    if (loaded) settingsSaver.save({ aliases })
+  }, [loaded, aliases])
+
+  // Don't lose the last batch when the tab is closed or left
+  useEffect(() => {
+    const handler = () => {
+      if (document.visibilityState === "hidden") settingsSaver.flush()
+    }
+    document.addEventListener("visibilitychange", handler)
+    return () => document.removeEventListener("visibilitychange", handler)
+  }, [])
+
+  useEffect(() => {
+    getStorageStatus().then(setStorageStatus)
+    return onStorageStatusChange(setStorageStatus)
+  }, [])
+
+  useEffect(() => onSettingsConflict(() => setEditsDropped(true)), [])
+
+  // Saving before the initial load would overwrite storage with defaults
+  useEffect(() => {
+    if (!loaded) return
+    settingsSaver.save({ tags, channelTags })
+  }, [loaded, tags, channelTags])
+
+  useEffect(() => {
+    if (!loaded) return
+    settingsSaver.save({ videoTags })
+  }, [loaded, videoTags])
+
+  useEffect(() => {
+    if (!loaded) return
+    settingsSaver.save({ channels })
+  }, [loaded, channels])
+
+  useEffect(() => {
+    if (!loaded) return
+    settingsSaver.save({ panelOpen })
+  }, [loaded, panelOpen])
+
+  useEffect(() => {
+    if (!loaded) return
+    settingsSaver.save({ surfaces })
+  }, [loaded, surfaces])
+
+  useEffect(() => {
+    if (!loaded) return
+    settingsSaver.save({ presets })
+  }, [loaded, presets])
+
+  useEffect(() => {
+    if (!loaded) return
+    settingsSaver.save({ rules })
+  }, [loaded, rules])
+
+  useEffect(() => {
+    if (!loaded) return
+    settingsSaver.save({ hotkeys })
+  }, [loaded, hotkeys])
+
+  useEffect(() => {
+    const handler = (event: Event) => {
+      const detail = (event as CustomEvent<{ results: Record<string, RuleMatchPreview> }>).detail
+      if (detail?.results) setRulePreview(detail.results)
+    }
+    window.addEventListener("ytx-rules-preview-result", handler)
+    return () => window.removeEventListener("ytx-rules-preview-result", handler)
+  }, [])
+
+  useEffect(() => {
+    const handler = (event: Event) => {
+      const detail = (event as CustomEvent<{ report: DiagnosticsReport }>).detail
+      if (detail?.report) setDiagnostics(detail.report)
+    }
+    window.addEventListener("ytx-diagnostics-result", handler)
+    return () => window.removeEventListener("ytx-diagnostics-result", handler)
+  }, [])
+
+  // A fresh report each time the view opens, however it was opened
+  useEffect(() => {
+    if (!diagnosticsOpen) return
+    setDiagnostics(null)
+    window.dispatchEvent(new CustomEvent("ytx-diagnostics"))
+  }, [diagnosticsOpen])
+
+  const activePresetId = useMemo(
+    () => presets.find((preset) => presetMatches(preset, surfaces[editedSurface]))?.id ?? null,
+    [presets, surfaces, editedSurface],
+  )
+
+  useEffect(() => {
+    const handler = () => {
+      const preset = presets.find((p) => p.id === getPresetIdFromHash(location.hash))
+      if (!preset) return
+      const target = getSurface(location.pathname) ?? "subscriptions"
+      setSurfaces((prev) => ({
+        ...prev,
+        [target]: { ...prev[target], ...getPresetFilters(preset, tags) },
+      }))
+    }
+
+    window.addEventListener("hashchange", handler)
+    return () => window.removeEventListener("hashchange", handler)
+  }, [presets, tags])
+
+  // Keep the URL hash pointing at the active view so the page can be bookmarked
+  useEffect(() => {
+    if (!loaded) return
+    const linked = getPresetIdFromHash(location.hash)
+    if (linked === activePresetId) return
+    if (!activePresetId && !linked) return
+    const hash = activePresetId ? getPresetHash(activePresetId) : ""
+    history.replaceState(history.state, "", `${location.pathname}${location.search}${hash}`)
+  }, [loaded, activePresetId])
+
+  useEffect(() => {
+    if (!loaded) return
     window.dispatchEvent(
       new CustomEvent("ytx-filter-change", {
         detail: {
-          activeTags: activeTag ? [activeTag] : [],
+          surfaces,
+          tags,
           channelTags,
-          contentTypes,
+          videoTags,
+          aliases,
+          channels,
+          rules,
+          revealHidden,
         },
       }),
     )
-  }, [activeTag, channelTags, contentTypes])
+  }, [
+    loaded,
+    surfaces,
+    tags,
+    channelTags,
+    videoTags,
+    aliases,
+    channels,
+    rules,
+    revealHidden,
+  ])
 
   const toggleFilter = (id: string) => {
-    setActiveTag((prev) => (prev === id ? null : id))
+    setTagFilter((prev) => cycleTagFilter(prev, id))
+  }
+
+  const toggleFilterMode = () => {
+    setTagFilter((prev) => ({ ...prev, mode: prev.mode === "any" ? "all" : "any" }))
+  }
+
+  const applyPreset = (preset: FilterPreset) => {
+    updateSurface(() => getPresetFilters(preset, tags))
+  }
+
+  const savePreset = (name: string) => {
+    setPresets((prev) => [
+      ...prev,
+      createPreset(uniqueId(slugify(name), prev), name, surfaces[editedSurface]),
+    ])
+  }
+
+  const deletePreset = (id: string) => {
+    setPresets((prev) => prev.filter((preset) => preset.id !== id))
   }
 
   const toggleContentType = (key: keyof ContentTypeFilters) => {
-    setContentTypes((prev) => ({ ...prev, [key]: !prev[key] }))
+    updateSurface((current) => ({
+      contentTypes: { ...current.contentTypes, [key]: !current.contentTypes[key] },
+    }))
   }
 
-  const createTag = () => {
-    const name = newTag.trim()
-    if (!name) return
-    const id = uniqueId(slugify(name), tags)
-    setTags((prev) => [...prev, { id, name, color: "#ff4d5a" }])
-    setNewTag("")
+  const updateWatched = (patch: Partial<WatchedFilter>) => {
+    updateSurface((current) => ({ watched: { ...current.watched, ...patch } }))
+  }
+
+  const updateDuration = (patch: Partial<DurationFilter>) => {
+    updateSurface((current) => ({ duration: { ...current.duration, ...patch } }))
+  }
+
+  const setTitleRules = (update: (prev: TitleRule[]) => TitleRule[]) => {
+    updateSurface((current) => ({ titleRules: update(current.titleRules) }))
+  }
+
+  const addTitleRule = (text: string, mode: TitleRule["mode"], regex: boolean) => {
+    setTitleRules((prev) => [
+      ...prev,
+      { id: uniqueId("title", prev), text, mode, regex, enabled: true },
+    ])
+  }
+
+  const toggleSurface = (id: Surface) => {
+    setSurfaces((prev) => ({ ...prev, [id]: { ...prev[id], enabled: !prev[id].enabled } }))
+  }
+
+  const createTag = (name: string) => {
+    setTags((prev) => [
+      ...prev,
+      { id: uniqueId(slugify(name), prev), name, color: nextTagColor(prev) },
+    ])
+  }
+
+  const updateTag = (id: string, patch: Partial<Omit<Tag, "id">>) => {
+    setTags((prev) => prev.map((tag) => (tag.id === id ? { ...tag, ...patch } : tag)))
+  }
+
+  const mergeTag = (sourceId: string, targetId: string) => {
+    setTags((prev) =>
+      reparentChildren(
+        prev.filter((tag) => tag.id !== sourceId),
+        sourceId,
+        targetId,
+      ),
+    )
+    setChannelTags((prev) => mergeTagInto(prev, sourceId, targetId))
+    setVideoTags((prev) =>
+      mapVideoTagIds(prev, (ids) =>
+        ids.includes(sourceId)
+          ? [...new Set(ids.map((id) => (id === sourceId ? targetId : id)))]
+          : ids,
+      ),
+    )
+    setSurfaces((prev) =>
+      mapSurfaceTagFilters(prev, (filter) => replaceTagInFilter(filter, sourceId, targetId)),
+    )
+    setRules((prev) => replaceTagInRules(prev, sourceId, targetId))
   }
 
   const deleteTag = (id: string) => {
-    setTags((prev) => prev.filter((tag) => tag.id !== id))
+    const index = tags.findIndex((tag) => tag.id === id)
+    if (index < 0) return
+    const tag = tags[index]
+    const filterStates: DeletedTag["filterStates"] = []
+    for (const { id: surfaceId } of SURFACES) {
+      const state = getTagFilterState(surfaces[surfaceId].filter, id)
+      if (state) filterStates.push([surfaceId, state])
+    }
+    setDeletedTags((prev) => [
+      ...prev.filter((deleted) => deleted.tag.id !== id),
+      {
+        tag,
+        index,
+        channelUrls: getChannelsWithTag(channelTags, id),
+        videoIds: getVideosWithTag(videoTags, id),
+        childIds: tags.filter((t) => t.parentId === id).map((t) => t.id),
+        rules: rules.filter((rule) => rule.tagId === id),
+        filterStates,
+        deletedAt: Date.now(),
+      },
+    ])
+    // Nested tags move up a level instead of disappearing with their parent
+    setTags((prev) =>
+      reparentChildren(
+        prev.filter((t) => t.id !== id),
+        id,
+        tag.parentId,
+      ),
+    )
+    setSurfaces((prev) =>
+      mapSurfaceTagFilters(prev, (filter) =>
+        pruneTagFilter(
+          filter,
+          tags.filter((tag) => tag.id !== id).map((tag) => tag.id),
+        ),
+      ),
+    )
+    setChannelTags((prev) => removeTagFromChannels(prev, id))
+    setVideoTags((prev) => mapVideoTagIds(prev, (ids) => ids.filter((t) => t !== id)))
+    setRules((prev) => prev.filter((rule) => rule.tagId !== id))
+  }
+
+  const undoDeleteTag = (id: string) => {
+    const deletedTag = deletedTags.find((deleted) => deleted.tag.id === id)
+    if (!deletedTag) return
+    const { index, channelUrls, videoIds, childIds, rules: deletedRules, filterStates } = deletedTag
+    setTags((prev) => {
+      // The parent may have been deleted in the meantime
+      const tag = prev.some((t) => t.id === deletedTag.tag.parentId)
+        ? deletedTag.tag
+        : { ...deletedTag.tag, parentId: undefined }
+      return [...prev.slice(0, index), tag, ...prev.slice(index)].map((t) =>
+        childIds.includes(t.id) ? { ...t, parentId: tag.id } : t,
+      )
+    })
     setChannelTags((prev) => {
-      const next: ChannelTagMap = {}
-      for (const [channel, tagIds] of Object.entries(prev)) {
-        next[channel] = tagIds.filter((tagId) => tagId !== id)
+      const next = { ...prev }
+      for (const url of channelUrls) {
+        const current = next[url] ?? []
+        if (!current.includes(id)) next[url] = [...current, id]
+      }
+      return next
+    })
+    setVideoTags((prev) => {
+      let next = prev
+      for (const videoId of videoIds) {
+        const video = next[videoId] ?? { tags: [], mode: "add" }
+        if (!video.tags.includes(id)) {
+          next = assignVideoTags(next, videoId, { ...video, tags: [...video.tags, id] })
+        }
       }
       return next
     })
+    setRules((prev) => [...prev, ...deletedRules])
+    setSurfaces((prev) => {
+      const next = { ...prev }
+      for (const [surfaceId, state] of filterStates) {
+        const filter = next[surfaceId].filter
+        if (getTagFilterState(filter, id)) continue
+        next[surfaceId] = {
+          ...next[surfaceId],
+          filter: { ...filter, [state]: [...filter[state], id] },
+        }
+      }
+      return next
+    })
+    setDeletedTags((prev) => prev.filter((deleted) => deleted.tag.id !== id))
+  }
+
+  // Each delete can be undone for a while; the oldest expires first
+  useEffect(() => {
+    if (!deletedTags.length) return
+    const oldest = Math.min(...deletedTags.map((deleted) => deleted.deletedAt))
+    const timer = setTimeout(
+      () =>
+        setDeletedTags((prev) =>
+          prev.filter((deleted) => Date.now() - deleted.deletedAt < UNDO_DELETE_MS),
+        ),
+      oldest + UNDO_DELETE_MS - Date.now(),
+    )
+    return () => clearTimeout(timer)
+  }, [deletedTags])
+
+  const addRule = (condition: RuleCondition, tagId: string) => {
+    setRules((prev) => [...prev, { id: uniqueId("rule", prev), condition, tagId, enabled: true }])
+    // The draft's preview now belongs to the saved rule
+    setRulePreview(null)
+  }
+
+  const toggleRule = (id: string) => {
+    setRules((prev) =>
+      prev.map((rule) => (rule.id === id ? { ...rule, enabled: !rule.enabled } : rule)),
+    )
+  }
+
+  const previewRules = (candidates: TagRule[]) => {
+    window.dispatchEvent(new CustomEvent("ytx-rules-preview", { detail: { rules: candidates } }))
+  }
+
+  const requestDiagnostics = () => {
+    window.dispatchEvent(new CustomEvent("ytx-diagnostics"))
+  }
+
+  const markSeen = (tagId: string) => {
+    window.dispatchEvent(new CustomEvent("ytx-mark-seen", { detail: { tagId } }))
+  }
+
+  const dropTag = (targetId: string) => {
+    if (draggedTagId) setTags((prev) => moveTag(prev, draggedTagId, targetId))
+    setDraggedTagId(null)
   }
 
   const toggleAssign = (id: string) => {
     if (!assignChannel) return
-    const key = normalizeChannelUrl(assignChannel.channelUrl)
+    const { videoId } = assignChannel
+    if (assignScope === "video" && videoId) {
+      setVideoTags((prev) => {
+        const video = prev[videoId] ?? { tags: [], mode: "add" }
+        const updated = video.tags.includes(id)
+          ? video.tags.filter((t) => t !== id)
+          : [...video.tags, id]
+        return assignVideoTags(prev, videoId, { ...video, tags: updated })
+      })
+      return
+    }
+    const key = resolveChannelKey(assignChannel.channelUrl, aliases)
     setChannelTags((prev) => {
       const current = prev[key] ?? []
       const updated = current.includes(id)
@@ -331,12 +848,155 @@ export default function App({ portalContainer }: AppProps) {
     })
   }
 
+  const setVideoTagMode = (mode: VideoTagMode) => {
+    const videoId = assignChannel?.videoId
+    if (!videoId) return
+    setVideoTags((prev) =>
+      assignVideoTags(prev, videoId, { tags: prev[videoId]?.tags ?? [], mode }),
+    )
+  }
+
+  const applyTagToChannels = (id: string, keys: string[]) => {
+    setChannelTags((prev) => {
+      const next = { ...prev }
+      for (const key of keys) {
+        const current = next[key] ?? []
+        if (!current.includes(id)) next[key] = [...current, id]
+      }
+      return next
+    })
+  }
+
+  const channelRecords = useMemo(
+    () => getChannelRecords(channels, channelTags),
+    [channels, channelTags],
+  )
+
+  const untaggedCount = channelRecords.filter((channel) => channel.tags.length === 0).length
+  const untaggedState = getTagFilterState(tagFilter, UNTAGGED_TAG_ID)
+
+  const assignedVideo =
+    assignScope === "video" && assignChannel?.videoId ? videoTags[assignChannel.videoId] : undefined
+
   // Get currently assigned tags for the popover
   const assignedTags = useMemo(() => {
     if (!assignChannel) return []
-    const key = normalizeChannelUrl(assignChannel.channelUrl)
-    return channelTags[key] ?? []
-  }, [assignChannel, channelTags])
+    if (assignScope === "video") return assignedVideo?.tags ?? []
+    return getChannelTags(channelTags, aliases, assignChannel.channelUrl)
+  }, [assignChannel, assignScope, assignedVideo, channelTags, aliases])
+
+  const suggestedTags = useMemo(() => {
+    if (!assignChannel || assignScope === "video") return []
+    return getSuggestedChannelTags(
+      rules,
+      assignChannel.channelUrl,
+      assignChannel.channelName,
+    ).filter((id) => !assignedTags.includes(id))
+  }, [assignChannel, assignScope, rules, assignedTags])
+
+  // A combination belongs to one action, so taking it clears it elsewhere
+  const setHotkey = (action: HotkeyAction, combo: string) => {
+    setHotkeys((prev) => {
+      const next = { ...prev, [action]: combo }
+      if (!combo) return next
+      for (const { id } of HOTKEY_ACTIONS) {
+        if (id !== action && next[id] === combo) next[id] = ""
+      }
+      return next
+    })
+  }
+
+  const openInPanel = (open: (value: boolean) => void) => {
+    setPanelOpen(true)
+    open(true)
+  }
+
+  const runHotkey = (action: HotkeyAction) => {
+    const [kind, arg] = action.split(":")
+    if (kind === "togglePanel") setPanelOpen((prev) => !prev)
+    else if (kind === "openPalette") setPaletteOpen(true)
+    else if (kind === "tagHoveredCard") window.dispatchEvent(new CustomEvent("ytx-tag-hovered"))
+    else if (kind === "contentType") toggleContentType(arg as keyof ContentTypeFilters)
+    else {
+      // Tag slots follow the order of the badges in the panel
+      const entry = flattenTagTree(tags)[Number(arg) - 1]
+      if (entry) toggleFilter(entry.tag.id)
+    }
+  }
+
+  // The listener is added once per hotkey map and always runs the latest handlers
+  const runHotkeyRef = useRef(runHotkey)
+  runHotkeyRef.current = runHotkey
+
+  useEffect(() => {
+    const handler = (event: KeyboardEvent) => {
+      if (isTypingTarget(event)) return
+      const combo = formatHotkey(event)
+      const action = combo ? findHotkeyAction(hotkeys, combo) : null
+      if (!action) return
+      event.preventDefault()
+      event.stopPropagation()
+      runHotkeyRef.current(action)
+    }
+    window.addEventListener("keydown", handler)
+    return () => window.removeEventListener("keydown", handler)
+  }, [hotkeys])
+
+  const paletteCommands: PaletteCommand[] = [
+    ...flattenTagTree(tags).map(({ tag }) => {
+      const state = getTagFilterState(tagFilter, tag.id)
+      return {
+        id: `tag:${tag.id}`,
+        label: getTagPath(tags, tag.id),
+        group: "Tag" as const,
+        hint: state === "include" ? "Included" : state === "exclude" ? "Excluded" : undefined,
+        run: () => toggleFilter(tag.id),
+      }
+    }),
+    {
+      id: "tag:untagged",
+      label: "Untagged",
+      group: "Tag",
+      run: () => toggleFilter(UNTAGGED_TAG_ID),
+    },
+    ...presets.map((preset) => ({
+      id: `view:${preset.id}`,
+      label: preset.name,
+      group: "View" as const,
+      hint: preset.id === activePresetId ? "Active" : undefined,
+      run: () => applyPreset(preset),
+    })),
+    ...(
+      [
+        ["togglePanel", panelOpen ? "Close panel" : "Open panel", () => setPanelOpen((p) => !p)],
+        ["tags", "Manage tags", () => openInPanel(setManageOpen)],
+        ["rules", "Tagging rules", () => openInPanel(setRulesOpen)],
+        ["bulk", "Tag channels in bulk", () => openInPanel(setBulkOpen)],
+        ["hotkeys", "Keyboard shortcuts", () => openInPanel(setHotkeysOpen)],
+        ["diagnostics", "Diagnostics", () => openInPanel(setDiagnosticsOpen)],
+        ["clear", "Clear tag filter", () => setTagFilter(() => EMPTY_TAG_FILTER)],
+        [
+          "reveal",
+          revealHidden ? "Hide hidden videos again" : "Reveal hidden videos",
+          () => setRevealHidden((p) => !p),
+        ],
+        ["contentType:videos", "Toggle videos", () => toggleContentType("videos")],
+        ["contentType:live", "Toggle live", () => toggleContentType("live")],
+        ["contentType:upcoming", "Toggle upcoming", () => toggleContentType("upcoming")],
+        ["contentType:shorts", "Toggle shorts", () => toggleContentType("shorts")],
+        ...FEED_ARRANGEMENTS.map(
+          ({ id, label }) =>
+            [`arrange:${id}`, label, () => updateSurface(() => ({ arrange: id }))] as const,
+        ),
+      ] as const
+    ).map(([id, label, run]) => ({
+      id,
+      label,
+      group: "Action" as const,
+      hint: hotkeys[id as HotkeyAction] || undefined,
+      run,
+    })),
+  ]
 
   return (
     <>
@@ -360,65 +1020,215 @@ export default function App({ portalContainer }: AppProps) {
           >
             <DialogTitle>Subscription Tags</DialogTitle>
             <div className="flex items-center justify-between w-full">
-              <DialogDescription>Filter your feed by channel tags</DialogDescription>
-              <Dialog open={manageOpen} onOpenChange={setManageOpen} modal={false}>
-                <DialogTrigger asChild>
-                  <Button size="icon" variant="ghost">
-                    <Edit2Icon className="size-5" />
+              <DialogDescription>
+                Filter {SURFACES.find((s) => s.id === editedSurface)?.label.toLowerCase()} by
+                channel tags
+              </DialogDescription>
+              <div className="flex">
+                <BulkTagDialog
+                  open={bulkOpen}
+                  onOpenChange={setBulkOpen}
+                  container={portalContainer}
+                  tags={tags}
+                  channels={channelRecords}
+                  onApply={applyTagToChannels}
+                />
+                <RulesDialog
+                  open={rulesOpen}
+                  onOpenChange={setRulesOpen}
+                  container={portalContainer}
+                  tags={tags}
+                  rules={rules}
+                  preview={rulePreview}
+                  onAdd={addRule}
+                  onToggle={toggleRule}
+                  onDelete={(id) => setRules((prev) => prev.filter((rule) => rule.id !== id))}
+                  onPreview={previewRules}
+                />
+                <ManageTagsDialog
+                  open={manageOpen}
+                  onOpenChange={setManageOpen}
+                  container={portalContainer}
+                  tags={tags}
+                  deleted={deletedTags}
+                  onCreate={createTag}
+                  onRename={(id, name) => updateTag(id, { name })}
+                  onRecolor={(id, color) => updateTag(id, { color })}
+                  onSetParent={(id, parentId) => updateTag(id, { parentId })}
+                  onToggleHide={(id) =>
+                    updateTag(id, { hide: !tags.find((tag) => tag.id === id)?.hide || undefined })
+                  }
+                  onMerge={mergeTag}
+                  onDelete={deleteTag}
+                  onUndoDelete={undoDeleteTag}
+                />
+                <HotkeysDialog
+                  open={hotkeysOpen}
+                  onOpenChange={setHotkeysOpen}
+                  container={portalContainer}
+                  hotkeys={hotkeys}
+                  onChange={setHotkey}
+                  onReset={() => setHotkeys(DEFAULT_HOTKEYS)}
+                />
+                <DiagnosticsDialog
+                  open={diagnosticsOpen}
+                  onOpenChange={setDiagnosticsOpen}
+                  container={portalContainer}
+                  report={diagnostics}
+                  onRefresh={requestDiagnostics}
+                />
+              </div>
+            </div>
+
+            <div className="flex w-full flex-wrap items-center gap-2">
+              <DialogDescription>Filter on:</DialogDescription>
+              {SURFACES.map(({ id, label }) => (
+                <button type="button" key={id} onClick={() => toggleSurface(id)}>
+                  <Badge variant={surfaces[id].enabled ? "active" : "default"}>{label}</Badge>
+                </button>
+              ))}
+            </div>
+
+            <PresetBar
+              presets={presets}
+              activePresetId={activePresetId}
+              onApply={applyPreset}
+              onSave={savePreset}
+              onDelete={deletePreset}
+            />
+
+            <div className="flex items-center justify-between w-full">
+              <DialogDescription>Click a tag to include it, again to exclude it.</DialogDescription>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={toggleFilterMode}
+                  title="How included tags combine"
+                >
+                  {tagFilter.mode === "any" ? "Any of" : "All of"}
+                </Button>
+                {isTagFilterActive(tagFilter) && (
+                  <Button size="sm" variant="ghost" onClick={() => setTagFilter(() => EMPTY_TAG_FILTER)}>
+                    Clear
                   </Button>
-                </DialogTrigger>
-                <DialogContent container={portalContainer} showOverlay={false}>
-                  <DialogTitle>Manage tags</DialogTitle>
-                  <DialogDescription>Create or delete tag names.</DialogDescription>
-                  <div className="space-y-4">
-                    <div className="flex gap-2">
-                      <Input
-                        value={newTag}
-                        onChange={(e) => setNewTag(e.target.value)}
-                        placeholder="New tag"
-                      />
-                      <Button onClick={createTag}>Add</Button>
-                    </div>
-                    <div className="flex flex-wrap gap-2">
-                      {tags.map((tag) => (
-                        <div key={tag.id} className="flex items-center gap-1">
-                          <Badge>{tag.name}</Badge>
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            onClick={() => deleteTag(tag.id)}
-                          >
-                            <X className="size-5" />
-                          </Button>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                </DialogContent>
-              </Dialog>
+                )}
+              </div>
             </div>
 
             <div className="flex w-full flex-wrap gap-2">
-              {tags.map((tag) => {
-                const count = getChannelCountForTag(tag.id, channelTags)
+              <button
+                type="button"
+                onClick={() => toggleFilter(UNTAGGED_TAG_ID)}
+                title="Channels without any tags"
+              >
+                <Badge
+                  variant={
+                    untaggedState === "include"
+                      ? "active"
+                      : untaggedState === "exclude"
+                        ? "excluded"
+                        : "default"
+                  }
+                  className="gap-1 italic"
+                >
+                  Untagged
+                  {untaggedCount > 0 && (
+                    <span className="ml-1 font-bold opacity-70 text-[hsl(var(--secondary))]">
+                      {untaggedCount}
+                    </span>
+                  )}
+                  <UnseenCount count={unseenCounts[UNTAGGED_TAG_ID]} />
+                </Badge>
+              </button>
+              {flattenTagTree(tags).map(({ tag, depth }) => {
+                const tagIds = getTagWithDescendants(tags, tag.id)
+                const count = getChannelCountForTag(tagIds, channelTags)
+                const state = getTagFilterState(tagFilter, tag.id)
+                const parent = depth > 0 ? getTagAncestors(tags, tag.id).pop() : undefined
                 return (
-                  <button type="button" key={tag.id} onClick={() => toggleFilter(tag.id)}>
+                  <button
+                    type="button"
+                    key={tag.id}
+                    draggable
+                    onClick={() => toggleFilter(tag.id)}
+                    onDragStart={() => setDraggedTagId(tag.id)}
+                    onDragEnd={() => setDraggedTagId(null)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => dropTag(tag.id)}
+                    className={draggedTagId === tag.id ? "opacity-50" : undefined}
+                    title={getTagPath(tags, tag.id)}
+                  >
                     <Badge
-                      variant={activeTag === tag.id ? "active" : "default"}
+                      variant={
+                        state === "include" ? "active" : state === "exclude" ? "excluded" : "default"
+                      }
                       className="gap-1"
+                      style={
+                        state === "include"
+                          ? { backgroundColor: tag.color, borderColor: tag.color }
+                          : undefined
+                      }
                     >
+                      {state !== "include" && (
+                        <span
+                          className="mr-1 size-3 rounded-full"
+                          style={{ backgroundColor: tag.color }}
+                        />
+                      )}
+                      {tag.hide && <EyeOff className="size-4 opacity-70" />}
+                      {parent && <span className="opacity-60">{parent.name} ›</span>}
                       {tag.name}
                       {count > 0 && (
                         <span className="ml-1 font-bold opacity-70 text-[hsl(var(--secondary))]">
                           {count}
                         </span>
                       )}
+                      <UnseenCount count={unseenCounts[tag.id]} />
                     </Badge>
                   </button>
                 )
               })}
             </div>
 
+            {Object.keys(unseenCounts).length > 0 && (
+              <div className="flex w-full flex-wrap items-center gap-2">
+                <DialogDescription>New since last visit:</DialogDescription>
+                {[
+                  ...tags.map((tag) => ({ id: tag.id, name: tag.name })),
+                  { id: UNTAGGED_TAG_ID, name: "Untagged" },
+                ]
+                  .filter(({ id }) => unseenCounts[id] > 0)
+                  .map(({ id, name }) => (
+                    <button
+                      type="button"
+                      key={id}
+                      onClick={() => markSeen(id)}
+                      title="Mark as seen"
+                    >
+                      <Badge className="gap-1">
+                        {name}
+                        <UnseenCount count={unseenCounts[id]} />
+                        <Check className="size-4 opacity-70" />
+                      </Badge>
+                    </button>
+                  ))}
+              </div>
+            )}
+
+            <div className="flex w-full flex-wrap items-center gap-2">
+              <DialogDescription>Arrange:</DialogDescription>
+              {FEED_ARRANGEMENTS.map(({ id, label }) => (
+                <button
+                  type="button"
+                  key={id}
+                  onClick={() => updateSurface(() => ({ arrange: id }))}
+                >
+                  <Badge variant={arrange === id ? "active" : "default"}>{label}</Badge>
+                </button>
+              ))}
+            </div>
+
             <DialogDescription>Content:</DialogDescription>
             <div className="flex flex-wrap gap-2">
               {(
@@ -436,32 +1246,128 @@ export default function App({ portalContainer }: AppProps) {
                 </button>
               ))}
             </div>
-
-            <div className="flex gap-2 pt-6 border-t border-[hsl(var(--border))]">
-              <Button
-                size="sm"
-                variant="secondary"
-                onClick={exportSettings}
-                className="gap-2"
-              >
-                <Download className="size-5" />
-                Export
-              </Button>
-              <Button
-                size="sm"
-                variant="secondary"
-                onClick={() => fileInputRef.current?.click()}
-                className="gap-2"
+            <div className="flex flex-wrap items-center gap-2">
+              {WATCHED_MODES.map(([mode, label]) => (
+                <button type="button" key={mode} onClick={() => updateWatched({ mode })}>
+                  <Badge variant={watched.mode === mode ? "active" : "default"}>{label}</Badge>
+                </button>
+              ))}
+              {watched.mode === "hide" && (
+                <select
+                  value={watched.threshold}
+                  onChange={(e) => updateWatched({ threshold: Number(e.target.value) })}
+                  className={SELECT_CLASS}
+                  title="How much of a video must be watched to hide it"
+                >
+                  {WATCHED_THRESHOLDS.map(([threshold, label]) => (
+                    <option key={threshold} value={threshold}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <DialogDescription>Length:</DialogDescription>
+              <MinutesInput
+                value={duration.min}
+                onCommit={(min) => updateDuration({ min })}
+                placeholder="Min"
+                title="Shortest length in minutes"
+              />
+              <span>–</span>
+              <MinutesInput
+                value={duration.max}
+                onCommit={(max) => updateDuration({ max })}
+                placeholder="Max"
+                title="Longest length in minutes"
+              />
+              <DialogDescription>min</DialogDescription>
+              <select
+                value={maxAgeDays ?? ""}
+                onChange={(e) =>
+                  updateSurface(() => ({
+                    maxAgeDays: e.target.value ? Number(e.target.value) : null,
+                  }))
+                }
+                className={SELECT_CLASS}
+                title="Upload age"
               >
-                <Upload className="size-5" />
-                Import
-              </Button>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".json"
-                onChange={handleImport}
-                className="hidden"
+                {AGE_OPTIONS.map(([days, label]) => (
+                  <option key={label} value={days ?? ""}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <DialogDescription>Titles:</DialogDescription>
+            <TitleFilterBar
+              rules={titleRules}
+              hiddenCounts={titleHidden}
+              onAdd={addTitleRule}
+              onToggle={(id) =>
+                setTitleRules((prev) =>
+                  prev.map((rule) => (rule.id === id ? { ...rule, enabled: !rule.enabled } : rule)),
+                )
+              }
+              onDelete={(id) => setTitleRules((prev) => prev.filter((rule) => rule.id !== id))}
+            />
+
+            {(hiddenCount > 0 || revealHidden) && (
+              <div className="flex w-full items-center justify-between">
+                <DialogDescription>
+                  {hiddenCount} video{hiddenCount === 1 ? "" : "s"} hidden by tag on this page
+                </DialogDescription>
+                <Button size="sm" variant="ghost" onClick={() => setRevealHidden((prev) => !prev)}>
+                  {revealHidden ? "Hide again" : "Reveal"}
+                </Button>
+              </div>
+            )}
+
+            {editsDropped && (
+              <div className="flex items-center justify-between gap-2 rounded-md border border-[hsl(var(--destructive))] p-3 text-lg text-[hsl(var(--destructive))]">
+                <span>
+                  Another tab saved newer settings first, so your last change here was undone.
+                </span>
+                <Button size="sm" variant="secondary" onClick={() => setEditsDropped(false)}>
+                  Dismiss
+                </Button>
+              </div>
+            )}
+
+            {storageStatus?.saveError && (
+              <div className="rounded-md border border-[hsl(var(--destructive))] p-3 text-lg text-[hsl(var(--destructive))]">
+                Settings could not be saved: {storageStatus.saveError}
+              </div>
+            )}
+
+            {storageStatus?.fallbackReason && (
+              <div className="flex items-center justify-between gap-2 rounded-md border border-[hsl(var(--destructive))] p-3 text-lg text-[hsl(var(--destructive))]">
+                <span>Sync storage is full. Changes are saved in this browser only.</span>
+                <div className="flex items-center gap-2">
+                  {retryError && <span className="text-base">{retryError}</span>}
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() =>
+                      retrySyncStorage().then(
+                        (moved) => setRetryError(moved ? null : "Settings still don't fit."),
+                        (error: Error) => setRetryError(`Retry failed: ${error.message}`),
+                      )
+                    }
+                  >
+                    Retry sync
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="pt-6 border-t border-[hsl(var(--border))]">
+              <BackupControls
+                current={currentSettings}
+                container={portalContainer}
+                onImported={applyImportedSettings}
               />
             </div>
           </DialogContent>
@@ -485,21 +1391,63 @@ export default function App({ portalContainer }: AppProps) {
         >
           <div className="space-y-4">
             <p className="text-3xl font-semibold truncate">Assign Tags</p>
-            <p className="text-xl text-[hsl(var(--muted-foreground))]">
-              {assignChannel?.channelName}
+            <p className="text-xl text-[hsl(var(--muted-foreground))] truncate">
+              {assignScope === "video" ? assignChannel?.videoTitle : assignChannel?.channelName}
             </p>
+            {assignChannel?.videoId && (
+              <div className="flex gap-2">
+                {(
+                  [
+                    ["channel", "Channel"],
+                    ["video", "This video"],
+                  ] as const
+                ).map(([scope, label]) => (
+                  <button type="button" key={scope} onClick={() => setAssignScope(scope)}>
+                    <Badge variant={assignScope === scope ? "active" : "default"}>{label}</Badge>
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="flex flex-wrap gap-2">
               {tags.map((tag) => (
                 <button type="button" key={tag.id} onClick={() => toggleAssign(tag.id)}>
-                  <Badge variant={assignedTags.includes(tag.id) ? "active" : "default"}>
+                  <Badge
+                    variant={assignedTags.includes(tag.id) ? "active" : "default"}
+                    className={suggestedTags.includes(tag.id) ? "border-dashed" : undefined}
+                    style={
+                      suggestedTags.includes(tag.id) ? { borderColor: tag.color } : undefined
+                    }
+                    title={suggestedTags.includes(tag.id) ? "Suggested by a rule" : undefined}
+                  >
                     {tag.name}
                   </Badge>
                 </button>
               ))}
             </div>
+            {assignScope === "video" && (
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() =>
+                  setVideoTagMode(assignedVideo?.mode === "override" ? "add" : "override")
+                }
+                title="How this video's tags combine with its channel's"
+              >
+                {assignedVideo?.mode === "override"
+                  ? "Replaces channel tags"
+                  : "Adds to channel tags"}
+              </Button>
+            )}
           </div>
         </PopoverContent>
       </Popover>
+
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        container={portalContainer}
+        commands={paletteCommands}
+      />
     </>
   )
 }
@@ -0,0 +1,273 @@
+import { ArrowDown, ArrowUp, Trash2, X } from "lucide-react"
+import { useEffect, useMemo, useState } from "react"
+import { BackupControls } from "./components/BackupControls"
+import { Badge } from "./components/ui/badge"
+import { Button } from "./components/ui/button"
+import { Input } from "./components/ui/input"
+import { type ChannelRecord, getChannelRecords } from "./lib/channels"
+import { loadSettings, onSettingsChange, type Settings, saveSettings } from "./lib/storage"
+import { getTagPath } from "./lib/tags"
+
+type SortKey = "name" | "tags" | "lastSeen"
+
+// Channels not seen in the feed for this long count as stale
+const STALE_MS = 90 * 24 * 60 * 60 * 1000
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--card))] px-2 text-base"
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "name", label: "Channel" },
+  { key: "tags", label: "Tags" },
+  { key: "lastSeen", label: "Last seen" },
+]
+
+/** Untagged entries and channels that haven't shown up in the feed for a while. */
+function isStale(row: ChannelRecord, now: number): boolean {
+  return row.tags.length === 0 || (row.lastSeen !== undefined && now - row.lastSeen > STALE_MS)
+}
+
+function compareRows(a: ChannelRecord, b: ChannelRecord, key: SortKey): number {
+  if (key === "tags") return a.tags.length - b.tags.length
+  if (key === "lastSeen") return (a.lastSeen ?? 0) - (b.lastSeen ?? 0)
+  return a.name.localeCompare(b.name)
+}
+
+/** Full-page view of every known channel, served as the extension's options page. */
+export default function Dashboard() {
+  const [settings, setSettings] = useState<Settings | null>(null)
+  const [query, setQuery] = useState("")
+  const [sortKey, setSortKey] = useState<SortKey>("name")
+  const [descending, setDescending] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadSettings().then(setSettings)
+    return onSettingsChange((patch) => setSettings((prev) => (prev ? { ...prev, ...patch } : prev)))
+  }, [])
+
+  const update = (patch: Partial<Settings>) => {
+    setSettings((prev) => (prev ? { ...prev, ...patch } : prev))
+    saveSettings(patch).then(
+      () => setSaveError(null),
+      (error: Error) => setSaveError(error.message),
+    )
+  }
+
+  const rows = useMemo(() => {
+    if (!settings) return []
+    // Channels imported or seen without tags get rows too, to be tagged here
+    return getChannelRecords(settings.channels, settings.channelTags)
+  }, [settings])
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    const tagNames = (row: ChannelRecord) =>
+      row.tags.map((id) => settings?.tags.find((tag) => tag.id === id)?.name ?? "")
+    const matches = rows.filter(
+      (row) =>
+        !needle ||
+        row.name.toLowerCase().includes(needle) ||
+        row.url.toLowerCase().includes(needle) ||
+        tagNames(row).some((name) => name.toLowerCase().includes(needle))
+    )
+    matches.sort((a, b) => compareRows(a, b, sortKey) * (descending ? -1 : 1))
+    return matches
+  }, [rows, query, sortKey, descending, settings])
+
+  if (!settings) {
+    return <p className="p-8 text-xl text-[hsl(var(--muted-foreground))]">Loading…</p>
+  }
+
+  const now = Date.now()
+  const staleKeys = rows.filter((row) => isStale(row, now)).map((row) => row.url)
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending((prev) => !prev)
+    } else {
+      setSortKey(key)
+      setDescending(key !== "name")
+    }
+  }
+
+  const toggleRow = (key: string) => {
+    setSelected((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]))
+  }
+
+  const setChannelTagIds = (key: string, tagIds: string[]) => {
+    update({ channelTags: { ...settings.channelTags, [key]: tagIds } })
+  }
+
+  const deleteSelected = () => {
+    if (!confirm(`Delete ${selected.length} channel(s)? Their tags will be lost.`)) return
+    const channelTags = { ...settings.channelTags }
+    const channels = { ...settings.channels }
+    for (const key of selected) {
+      delete channelTags[key]
+      delete channels[key]
+    }
+    update({ channelTags, channels })
+    setSelected([])
+  }
+
+  return (
+    <div className="mx-auto max-w-6xl space-y-6 p-8">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Youtube Lens channels</h1>
+          <p className="text-xl text-[hsl(var(--muted-foreground))]">
+            {rows.length} channel(s), {settings.tags.length} tag(s)
+          </p>
+          {saveError && (
+            <p className="text-xl text-[hsl(var(--destructive))]">
+              Changes could not be saved: {saveError}
+            </p>
+          )}
+        </div>
+        <BackupControls current={settings} container={document.body} onImported={setSettings} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search channels or tags"
+          className="max-w-sm"
+        />
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => setSelected(staleKeys)}
+          disabled={staleKeys.length === 0}
+          title="Untagged channels and channels not seen in 90 days"
+        >
+          Select stale ({staleKeys.length})
+        </Button>
+        {selected.length > 0 && (
+          <>
+            <Button size="sm" variant="ghost" onClick={() => setSelected([])}>
+              Clear selection
+            </Button>
+            <Button size="sm" variant="secondary" onClick={deleteSelected} className="gap-2">
+              <Trash2 className="size-5" />
+              Delete {selected.length}
+            </Button>
+          </>
+        )}
+      </div>
+
+      <table className="w-full border-collapse text-lg">
+        <thead>
+          <tr className="border-b border-[hsl(var(--border))] text-left">
+            <th className="w-10 p-2">
+              <input
+                type="checkbox"
+                checked={visible.length > 0 && visible.every((row) => selected.includes(row.url))}
+                onChange={(e) => setSelected(e.target.checked ? visible.map((row) => row.url) : [])}
+                title="Select all shown"
+              />
+            </th>
+            {COLUMNS.map(({ key, label }) => (
+              <th key={key} className="p-2">
+                <button
+                  type="button"
+                  onClick={() => sortBy(key)}
+                  className="inline-flex items-center gap-1 font-semibold"
+                >
+                  {label}
+                  {sortKey === key &&
+                    (descending ? (
+                      <ArrowDown className="size-4" />
+                    ) : (
+                      <ArrowUp className="size-4" />
+                    ))}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {visible.map((row) => (
+            <tr key={row.url} className="border-b border-[hsl(var(--border))] align-middle">
+              <td className="p-2">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(row.url)}
+                  onChange={() => toggleRow(row.url)}
+                />
+              </td>
+              <td className="p-2">
+                <a
+                  href={row.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center gap-2 hover:underline"
+                  title={row.url}
+                >
+                  {row.avatar && <img src={row.avatar} alt="" className="size-8 rounded-full" />}
+                  {row.name}
+                </a>
+              </td>
+              <td className="p-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  {row.tags.map((id) => {
+                    const tag = settings.tags.find((t) => t.id === id)
+                    if (!tag) return null
+                    return (
+                      <Badge
+                        key={id}
+                        className="gap-1 pr-2"
+                        style={{ borderColor: tag.color }}
+                        title={getTagPath(settings.tags, id)}
+                      >
+                        {tag.name}
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setChannelTagIds(
+                              row.url,
+                              row.tags.filter((t) => t !== id)
+                            )
+                          }
+                          className="opacity-60 hover:opacity-100"
+                          title={`Remove ${tag.name}`}
+                        >
+                          <X className="size-4" />
+                        </button>
+                      </Badge>
+                    )
+                  })}
+                  <select
+                    value=""
+                    onChange={(e) =>
+                      e.target.value && setChannelTagIds(row.url, [...row.tags, e.target.value])
+                    }
+                    className={SELECT_CLASS}
+                    title="Add tag"
+                  >
+                    <option value="">Add tag…</option>
+                    {settings.tags
+                      .filter((tag) => !row.tags.includes(tag.id))
+                      .map((tag) => (
+                        <option key={tag.id} value={tag.id}>
+                          {tag.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              </td>
+              <td className="p-2 text-[hsl(var(--muted-foreground))]">
+                {row.lastSeen ? new Date(row.lastSeen).toLocaleDateString() : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {visible.length === 0 && (
+        <p className="text-xl text-[hsl(var(--muted-foreground))]">No matching channels.</p>
+      )}
+    </div>
+  )
+}
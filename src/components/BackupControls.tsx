@@ -0,0 +1,214 @@
+import { Download, Upload } from "lucide-react"
+import { useRef, useState } from "react"
+import {
+  type BackupParseResult,
+  createBackup,
+  type ParsedBackup,
+  parseBackup,
+  resolveTagReferences,
+} from "../lib/backup"
+import { getStorageStatus, loadSettings, type Settings, saveSettings } from "../lib/storage"
+import { createTagOpml, parseTakeoutCsv } from "../lib/subscriptions"
+import { ImportDialog } from "./ImportDialog"
+import { Button } from "./ui/button"
+
+type BackupControlsProps = {
+  current: Settings
+  container: HTMLElement
+  /** Called with the settings written by a confirmed import. */
+  onImported: (next: Settings) => void
+}
+
+type FileFormat = "backup" | "takeout" | "opml"
+
+type FormatOption = {
+  id: FileFormat
+  label: string
+  /** File types the import picker offers; formats without one can't be imported. */
+  accept?: string
+  canExport: boolean
+}
+
+const FORMATS: FormatOption[] = [
+  { id: "backup", label: "Lens backup (JSON)", accept: ".json", canExport: true },
+  { id: "takeout", label: "Takeout subscriptions (CSV)", accept: ".csv", canExport: false },
+  { id: "opml", label: "Tag feeds (OPML)", canExport: true },
+]
+
+const SELECT_CLASS =
+  "h-9 min-w-0 rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--card))] px-2 text-base"
+
+function downloadFile(content: string, type: string, filename: string): void {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+async function exportSettings(format: FileFormat, tagId: string): Promise<void> {
+  const status = await getStorageStatus()
+  if (!status.area) {
+    alert("Storage not available")
+    return
+  }
+  const settings = await loadSettings()
+  if (format === "backup") {
+    const json = JSON.stringify(createBackup(settings), null, 2)
+    downloadFile(json, "application/json", `youtube-lens-backup-${today()}.json`)
+    return
+  }
+
+  const tag = settings.tags.find((t) => t.id === tagId)
+  if (!tag) return
+  const { opml, count, skipped } = createTagOpml(settings, tag.id)
+  if (count === 0) {
+    alert(`No channel tagged "${tag.name}" has a known channel id yet.`)
+    return
+  }
+  const slug =
+    tag.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || tag.id
+  downloadFile(opml, "text/x-opml", `youtube-lens-${slug}-${today()}.opml`)
+  if (skipped) {
+    alert(
+      `${skipped} channel(s) were left out because only their handle is known. Visit their channel page once and export again.`
+    )
+  }
+}
+
+function parseImport(format: FileFormat, text: string): BackupParseResult {
+  return format === "takeout" ? parseTakeoutCsv(text) : parseBackup(text)
+}
+
+function readFileText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = (e) => resolve(e.target?.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file)
+  })
+}
+
+/** Format chooser, Export and Import buttons, plus the import preview dialog. */
+export function BackupControls({ current, container, onImported }: BackupControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [pendingImport, setPendingImport] = useState<ParsedBackup | null>(null)
+  const [format, setFormat] = useState<FileFormat>("backup")
+  const [opmlTagId, setOpmlTagId] = useState("")
+
+  const option = FORMATS.find(({ id }) => id === format) ?? FORMATS[0]
+  // Fall back to the first tag until one is picked, or when the picked one is deleted
+  const exportTagId = current.tags.some((tag) => tag.id === opmlTagId)
+    ? opmlTagId
+    : (current.tags[0]?.id ?? "")
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    try {
+      const result = parseImport(format, await readFileText(file))
+      if (result.ok) {
+        setPendingImport(resolveTagReferences(result.backup, current.tags))
+      } else {
+        alert(result.error)
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      alert(`Could not read ${file.name}: ${reason}`)
+    } finally {
+      // Reset file input
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  const confirmImport = async (next: Settings) => {
+    setPendingImport(null)
+    if (!(await getStorageStatus()).area) {
+      alert("Storage not available")
+      return
+    }
+    try {
+      await saveSettings(next)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      alert(`Import could not be saved: ${reason}`)
+      return
+    }
+    onImported(next)
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as FileFormat)}
+          className={SELECT_CLASS}
+          title="File format"
+        >
+          {FORMATS.map(({ id, label }) => (
+            <option key={id} value={id}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {format === "opml" && (
+          <select
+            value={exportTagId}
+            onChange={(e) => setOpmlTagId(e.target.value)}
+            className={SELECT_CLASS}
+            title="Tag to export"
+          >
+            {current.tags.map((tag) => (
+              <option key={tag.id} value={tag.id}>
+                {tag.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => exportSettings(format, exportTagId)}
+          disabled={!option.canExport || (format === "opml" && !exportTagId)}
+          className="gap-2"
+        >
+          <Download className="size-5" />
+          Export
+        </Button>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!option.accept}
+          className="gap-2"
+        >
+          <Upload className="size-5" />
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={option.accept}
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      <ImportDialog
+        backup={pendingImport}
+        current={current}
+        container={container}
+        onCancel={() => setPendingImport(null)}
+        onConfirm={confirmImport}
+      />
+    </>
+  )
+}
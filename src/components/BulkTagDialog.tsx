@@ -0,0 +1,160 @@
+import { ListChecks } from "lucide-react"
+import { useMemo, useState } from "react"
+import type { ChannelRecord } from "../lib/channels"
+import type { Tag } from "../lib/types"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle, DialogTrigger } from "./ui/dialog"
+import { Input } from "./ui/input"
+
+type BulkTagDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  container: HTMLElement
+  tags: Tag[]
+  channels: ChannelRecord[]
+  onApply: (tagId: string, channelKeys: string[]) => void
+}
+
+const SELECT_CLASS =
+  "h-9 min-w-0 flex-1 rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--card))] px-2 text-base"
+
+export function BulkTagDialog({
+  open,
+  onOpenChange,
+  container,
+  tags,
+  channels,
+  onApply,
+}: BulkTagDialogProps) {
+  const [query, setQuery] = useState("")
+  const [untaggedOnly, setUntaggedOnly] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
+  const [tagId, setTagId] = useState("")
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    return channels
+      .filter((channel) => !untaggedOnly || channel.tags.length === 0)
+      .filter(
+        (channel) =>
+          !needle ||
+          channel.name.toLowerCase().includes(needle) ||
+          channel.url.toLowerCase().includes(needle)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [channels, query, untaggedOnly])
+
+  const allVisibleSelected =
+    visible.length > 0 && visible.every((channel) => selected.includes(channel.url))
+
+  const toggleChannel = (key: string) => {
+    setSelected((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]))
+  }
+
+  const toggleAllVisible = () => {
+    const keys = visible.map((channel) => channel.url)
+    setSelected((prev) =>
+      allVisibleSelected
+        ? prev.filter((key) => !keys.includes(key))
+        : [...new Set([...prev, ...keys])]
+    )
+  }
+
+  const apply = () => {
+    if (!tagId || selected.length === 0) return
+    onApply(tagId, selected)
+    setSelected([])
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} modal={false}>
+      <DialogTrigger asChild>
+        <Button size="icon" variant="ghost" title="Tag channels in bulk">
+          <ListChecks className="size-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent container={container} showOverlay={false}>
+        <DialogTitle>Tag channels</DialogTitle>
+        <DialogDescription>
+          Every channel seen in your feeds or on the Channels page. Select channels and apply a tag
+          to all of them.
+        </DialogDescription>
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search channels"
+            />
+            <button type="button" onClick={() => setUntaggedOnly((prev) => !prev)}>
+              <Badge variant={untaggedOnly ? "active" : "default"}>Untagged</Badge>
+            </button>
+          </div>
+          <div className="flex items-center justify-between">
+            <Button size="sm" variant="ghost" onClick={toggleAllVisible}>
+              {allVisibleSelected ? "Deselect all" : "Select all"}
+            </Button>
+            <span className="text-lg text-[hsl(var(--muted-foreground))]">
+              {selected.length} of {channels.length} selected
+            </span>
+          </div>
+          <div className="max-h-96 space-y-1 overflow-y-auto">
+            {visible.map((channel) => (
+              <label
+                key={channel.url}
+                className="flex cursor-pointer items-center gap-3 rounded-md px-2 py-1 hover:bg-[hsl(var(--muted))]"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(channel.url)}
+                  onChange={() => toggleChannel(channel.url)}
+                  className="size-4 shrink-0"
+                />
+                {channel.avatar && (
+                  <img src={channel.avatar} alt="" className="size-6 shrink-0 rounded-full" />
+                )}
+                <span className="min-w-0 flex-1 truncate text-lg" title={channel.url}>
+                  {channel.name}
+                </span>
+                {tags
+                  .filter((tag) => channel.tags.includes(tag.id))
+                  .map((tag) => (
+                    <span
+                      key={tag.id}
+                      className="size-3 shrink-0 rounded-full"
+                      style={{ backgroundColor: tag.color }}
+                      title={tag.name}
+                    />
+                  ))}
+              </label>
+            ))}
+            {visible.length === 0 && (
+              <p className="p-2 text-lg text-[hsl(var(--muted-foreground))]">
+                No channels yet. Scroll your subscriptions feed or open the Channels page.
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={tagId}
+              onChange={(e) => setTagId(e.target.value)}
+              className={SELECT_CLASS}
+              title="Tag to apply"
+            >
+              <option value="">Choose a tag…</option>
+              {tags.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  {tag.name}
+                </option>
+              ))}
+            </select>
+            <Button onClick={apply} disabled={!tagId || selected.length === 0}>
+              Apply to selected
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
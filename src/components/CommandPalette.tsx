@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "./ui/dialog"
+import { Input } from "./ui/input"
+
+export type PaletteCommand = {
+  id: string
+  label: string
+  group: "Tag" | "View" | "Action"
+  /** Shown on the right, e.g. the command's hotkey or current state. */
+  hint?: string
+  run: () => void
+}
+
+type CommandPaletteProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  container: HTMLElement
+  commands: PaletteCommand[]
+}
+
+const MAX_RESULTS = 8
+
+/**
+ * Score how well `query` matches `text` as a subsequence, ignoring case; null
+ * when it doesn't. Consecutive letters and word starts score higher.
+ */
+function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.trim().toLowerCase()
+  const haystack = text.toLowerCase()
+  let score = 0
+  let from = 0
+  let previous = -2
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from)
+    if (index < 0) return null
+    score += index === previous + 1 ? 3 : 1
+    if (index === 0 || /[\s›:/-]/.test(haystack[index - 1])) score += 2
+    previous = index
+    from = index + 1
+  }
+  return score
+}
+
+export function CommandPalette({ open, onOpenChange, container, commands }: CommandPaletteProps) {
+  const [query, setQuery] = useState("")
+  const [selected, setSelected] = useState(0)
+
+  useEffect(() => {
+    if (open) setQuery("")
+  }, [open])
+
+  const results = useMemo(() => {
+    const scored = commands
+      .map((command) => ({
+        command,
+        score: fuzzyScore(query, `${command.group} ${command.label}`),
+      }))
+      .filter((entry): entry is { command: PaletteCommand; score: number } => entry.score !== null)
+    // Stable sort keeps the given order among equal scores
+    scored.sort((a, b) => b.score - a.score)
+    return scored.slice(0, MAX_RESULTS).map(({ command }) => command)
+  }, [commands, query])
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (!command) return
+    onOpenChange(false)
+    command.run()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault()
+      const step = e.key === "ArrowDown" ? 1 : -1
+      setSelected((prev) => (prev + step + results.length) % Math.max(results.length, 1))
+    } else if (e.key === "Enter") {
+      e.preventDefault()
+      run(results[selected])
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} modal={false}>
+      <DialogContent container={container} showOverlay={false} className="ytx-root top-1/4">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search tags, views and actions, then press Enter.
+        </DialogDescription>
+        <Input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setSelected(0)
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Search tags, views and actions"
+          className="mr-8"
+        />
+        <div className="space-y-1">
+          {results.map((command, index) => (
+            <button
+              type="button"
+              key={command.id}
+              onClick={() => run(command)}
+              onMouseEnter={() => setSelected(index)}
+              className={`flex w-full items-center gap-3 rounded-md px-3 py-2 text-left text-lg ${
+                index === selected ? "bg-[hsl(var(--muted))]" : ""
+              }`}
+            >
+              <span className="w-14 shrink-0 text-base text-[hsl(var(--muted-foreground))]">
+                {command.group}
+              </span>
+              <span className="min-w-0 flex-1 truncate">{command.label}</span>
+              {command.hint && (
+                <span className="shrink-0 text-base text-[hsl(var(--muted-foreground))]">
+                  {command.hint}
+                </span>
+              )}
+            </button>
+          ))}
+          {results.length === 0 && (
+            <p className="px-3 py-2 text-lg text-[hsl(var(--muted-foreground))]">No matches.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
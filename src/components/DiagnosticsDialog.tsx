@@ -0,0 +1,109 @@
+import { Stethoscope } from "lucide-react"
+import { useState } from "react"
+import { type DiagnosticsReport, describeProblems } from "../lib/diagnostics"
+import { Button } from "./ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle, DialogTrigger } from "./ui/dialog"
+
+type DiagnosticsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  container: HTMLElement
+  report: DiagnosticsReport | null
+  onRefresh: () => void
+}
+
+export function DiagnosticsDialog({
+  open,
+  onOpenChange,
+  container,
+  report,
+  onRefresh,
+}: DiagnosticsDialogProps) {
+  const [copied, setCopied] = useState(false)
+  const problems = report ? describeProblems(report) : []
+
+  const copyReport = async () => {
+    if (!report) return
+    try {
+      await navigator.clipboard.writeText(JSON.stringify({ problems, ...report }, null, 2))
+      setCopied(true)
+    } catch (error) {
+      console.warn("[youtube-lens] Failed to copy the diagnostics report", error)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setCopied(false)
+        onOpenChange(next)
+      }}
+      modal={false}
+    >
+      <DialogTrigger asChild>
+        <Button size="icon" variant="ghost" title="Diagnostics">
+          <Stethoscope className="size-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent container={container} showOverlay={false}>
+        <DialogTitle>Diagnostics</DialogTitle>
+        <DialogDescription>
+          What was found on this page. When YouTube changes its layout, copy the report into a bug
+          report.
+        </DialogDescription>
+        {!report ? (
+          <p className="text-lg text-[hsl(var(--muted-foreground))]">Checking the page…</p>
+        ) : (
+          <div className="max-h-96 space-y-4 overflow-y-auto">
+            <div className="space-y-1">
+              {problems.map((problem) => (
+                <p key={problem} className="text-lg text-[hsl(var(--destructive))]">
+                  {problem}
+                </p>
+              ))}
+              {problems.length === 0 && <p className="text-lg">No problems found on this page.</p>}
+              <p className="text-base text-[hsl(var(--muted-foreground))]">
+                {report.cards} card(s), {report.cardsWithChannel} with a channel link
+              </p>
+            </div>
+            {report.groups.map((group) => (
+              <div key={group.id} className="space-y-1">
+                <p className="text-lg font-medium">
+                  {group.label}
+                  <span className="text-base font-normal text-[hsl(var(--muted-foreground))]">
+                    {" "}
+                    · {group.kind === "page" ? "matches on the page" : "lookups answered"}
+                    {group.misses > 0 && `, ${group.misses} missed`}
+                  </span>
+                </p>
+                {group.selectors.map(({ selector, hits }) => (
+                  <div key={selector} className="flex gap-3 text-base">
+                    <span
+                      className={`w-10 shrink-0 text-right ${
+                        hits === 0 ? "text-[hsl(var(--muted-foreground))]" : ""
+                      }`}
+                    >
+                      {hits}
+                    </span>
+                    <code className="min-w-0 flex-1 break-all text-[hsl(var(--muted-foreground))]">
+                      {selector}
+                    </code>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Button size="sm" variant="secondary" onClick={onRefresh}>
+            Check again
+          </Button>
+          <Button size="sm" variant="ghost" onClick={copyReport} disabled={!report}>
+            {copied ? "Copied" : "Copy report"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
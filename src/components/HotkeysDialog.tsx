@@ -0,0 +1,81 @@
+import { Keyboard } from "lucide-react"
+import { useState } from "react"
+import { formatHotkey, HOTKEY_ACTIONS, type HotkeyAction, type HotkeyMap } from "../lib/hotkeys"
+import { Button } from "./ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle, DialogTrigger } from "./ui/dialog"
+
+type HotkeysDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  container: HTMLElement
+  hotkeys: HotkeyMap
+  onChange: (action: HotkeyAction, combo: string) => void
+  onReset: () => void
+}
+
+export function HotkeysDialog({
+  open,
+  onOpenChange,
+  container,
+  hotkeys,
+  onChange,
+  onReset,
+}: HotkeysDialogProps) {
+  const [recording, setRecording] = useState<HotkeyAction | null>(null)
+
+  const record = (action: HotkeyAction, e: React.KeyboardEvent<HTMLButtonElement>) => {
+    // Keep the keys away from the shortcut handler while recording
+    e.preventDefault()
+    e.stopPropagation()
+    if (e.key === "Escape") {
+      setRecording(null)
+      return
+    }
+    if (e.key === "Backspace" || e.key === "Delete") {
+      onChange(action, "")
+      setRecording(null)
+      return
+    }
+    const combo = formatHotkey(e.nativeEvent)
+    if (!combo) return
+    onChange(action, combo)
+    setRecording(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} modal={false}>
+      <DialogTrigger asChild>
+        <Button size="icon" variant="ghost" title="Keyboard shortcuts">
+          <Keyboard className="size-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent container={container} showOverlay={false}>
+        <DialogTitle>Keyboard shortcuts</DialogTitle>
+        <DialogDescription>
+          Click a shortcut and press the new keys. Backspace turns it off. Shortcuts never fire
+          while typing.
+        </DialogDescription>
+        <div className="max-h-96 space-y-1 overflow-y-auto">
+          {HOTKEY_ACTIONS.map(({ id, label }) => (
+            <div key={id} className="flex items-center justify-between gap-4">
+              <span className="text-lg">{label}</span>
+              <Button
+                size="sm"
+                variant={recording === id ? "default" : "secondary"}
+                onClick={() => setRecording(id)}
+                onKeyDown={(e) => recording === id && record(id, e)}
+                onBlur={() => setRecording((prev) => (prev === id ? null : prev))}
+                className="min-w-24"
+              >
+                {recording === id ? "Press keys…" : hotkeys[id] || "Off"}
+              </Button>
+            </div>
+          ))}
+        </div>
+        <Button size="sm" variant="ghost" onClick={onReset}>
+          Restore defaults
+        </Button>
+      </DialogContent>
+    </Dialog>
+  )
+}
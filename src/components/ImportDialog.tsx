@@ -0,0 +1,145 @@
+import { useMemo, useState } from "react"
+import { applyImport, diffSettings, type ImportMode, type ParsedBackup } from "../lib/backup"
+import { getChannelLabel } from "../lib/channels"
+import type { Settings } from "../lib/storage"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "./ui/dialog"
+
+type ImportDialogProps = {
+  backup: ParsedBackup | null
+  current: Settings
+  container: HTMLElement
+  onCancel: () => void
+  onConfirm: (next: Settings) => void
+}
+
+const MODE_LABELS: Record<ImportMode, string> = {
+  merge: "Merge",
+  replace: "Replace",
+}
+
+const RETAGGED_PREVIEW_LIMIT = 5
+
+function describeSource(backup: ParsedBackup): string {
+  if (backup.source === "takeout") {
+    const count = Object.keys(backup.settings.channels ?? {}).length
+    return `${count} subscription(s) from Google Takeout.`
+  }
+  if (backup.schemaVersion < 2) return "Backup from an older version of Lens."
+  const date = backup.exportedAt ? new Date(backup.exportedAt).toLocaleString() : "unknown date"
+  return `Exported ${date} from Lens ${backup.extensionVersion ?? "unknown"}.`
+}
+
+export function ImportDialog({
+  backup,
+  current,
+  container,
+  onCancel,
+  onConfirm,
+}: ImportDialogProps) {
+  const [chosenMode, setMode] = useState<ImportMode>("merge")
+  const mode = backup?.source === "takeout" ? "merge" : chosenMode
+
+  const next = useMemo(
+    () => (backup ? applyImport(current, backup.settings, mode) : null),
+    [backup, current, mode]
+  )
+  const diff = useMemo(() => (next ? diffSettings(current, next) : null), [current, next])
+
+  const tagName = (id: string) => next?.tags.find((tag) => tag.id === id)?.name ?? id
+  const channelName = (url: string) => next?.channels[url]?.name || getChannelLabel(url)
+
+  return (
+    <Dialog open={backup !== null} onOpenChange={(open) => !open && onCancel()} modal={false}>
+      <DialogContent container={container} showOverlay={false}>
+        <DialogTitle>
+          {backup?.source === "takeout" ? "Import subscriptions" : "Import backup"}
+        </DialogTitle>
+        {backup && diff && next && (
+          <>
+            <DialogDescription>{describeSource(backup)}</DialogDescription>
+
+            {backup.source === "backup" ? (
+              <>
+                <div className="flex gap-2">
+                  {(Object.keys(MODE_LABELS) as ImportMode[]).map((key) => (
+                    <button type="button" key={key} onClick={() => setMode(key)}>
+                      <Badge variant={mode === key ? "active" : "default"}>
+                        {MODE_LABELS[key]}
+                      </Badge>
+                    </button>
+                  ))}
+                </div>
+                <p className="text-lg text-[hsl(var(--muted-foreground))]">
+                  {mode === "merge"
+                    ? "Adds new tags and assignments. Nothing you have now is removed."
+                    : "Overwrites your tags, assignments and filters with the backup."}
+                </p>
+              </>
+            ) : (
+              <p className="text-lg text-[hsl(var(--muted-foreground))]">
+                Adds your subscriptions to the channel list, ready to tag. Nothing you have now is
+                changed.
+              </p>
+            )}
+
+            <ul className="space-y-1 text-lg">
+              <li>
+                {diff.tagsAdded.length} tag(s) added
+                {diff.tagsAdded.length > 0 && `: ${diff.tagsAdded.map((t) => t.name).join(", ")}`}
+              </li>
+              {diff.tagsRemoved.length > 0 && (
+                <li className="text-[hsl(var(--destructive))]">
+                  {diff.tagsRemoved.length} tag(s) removed:{" "}
+                  {diff.tagsRemoved.map((t) => t.name).join(", ")}
+                </li>
+              )}
+              <li>{diff.channelsAdded} channel(s) added</li>
+              {diff.channelsListed > 0 && (
+                <li>{diff.channelsListed} new channel(s) in the channel list</li>
+              )}
+              <li>{diff.channelsRetagged.length} channel(s) retagged</li>
+              {diff.videosRetagged > 0 && <li>{diff.videosRetagged} video(s) retagged</li>}
+              {diff.channelsRemoved > 0 && (
+                <li className="text-[hsl(var(--destructive))]">
+                  {diff.channelsRemoved} channel(s) lose all tags
+                </li>
+              )}
+            </ul>
+
+            {diff.channelsRetagged.length > 0 && (
+              <ul className="max-h-48 space-y-1 overflow-y-auto text-base text-[hsl(var(--muted-foreground))]">
+                {diff.channelsRetagged.slice(0, RETAGGED_PREVIEW_LIMIT).map((change) => (
+                  <li key={change.channelUrl} className="truncate">
+                    {channelName(change.channelUrl)}:{" "}
+                    {change.before.map(tagName).join(", ") || "none"} →{" "}
+                    {change.after.map(tagName).join(", ") || "none"}
+                  </li>
+                ))}
+                {diff.channelsRetagged.length > RETAGGED_PREVIEW_LIMIT && (
+                  <li>…and {diff.channelsRetagged.length - RETAGGED_PREVIEW_LIMIT} more</li>
+                )}
+              </ul>
+            )}
+
+            {backup.warnings.map((warning) => (
+              <p key={warning} className="text-lg text-[hsl(var(--destructive))]">
+                {warning}
+              </p>
+            ))}
+
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={onCancel}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={() => onConfirm(next)}>
+                {MODE_LABELS[mode]}
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
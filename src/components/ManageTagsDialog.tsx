@@ -0,0 +1,238 @@
+import { Edit2Icon, EyeOff, X } from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+import type { TagFilterState } from "../lib/filters"
+import type { TagRule } from "../lib/rules"
+import type { Surface } from "../lib/surfaces"
+import { flattenTagTree, getParentCandidates, getTagWithDescendants } from "../lib/tags"
+import type { Tag } from "../lib/types"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle, DialogTrigger } from "./ui/dialog"
+import { Input } from "./ui/input"
+
+export type DeletedTag = {
+  tag: Tag
+  index: number
+  channelUrls: string[]
+  videoIds: string[]
+  /** Tags that were nested directly below the deleted tag. */
+  childIds: string[]
+  rules: TagRule[]
+  /** Where the tag was part of a surface's filter. */
+  filterStates: [Surface, NonNullable<TagFilterState>][]
+  deletedAt: number
+}
+
+type ManageTagsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  container: HTMLElement
+  tags: Tag[]
+  /** Recent deletes that can still be undone. */
+  deleted: DeletedTag[]
+  onCreate: (name: string) => void
+  onRename: (id: string, name: string) => void
+  onRecolor: (id: string, color: string) => void
+  onSetParent: (id: string, parentId: string | undefined) => void
+  onToggleHide: (id: string) => void
+  onMerge: (sourceId: string, targetId: string) => void
+  onDelete: (id: string) => void
+  onUndoDelete: (id: string) => void
+}
+
+const SELECT_CLASS =
+  "h-9 w-28 shrink-0 rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--card))] px-2 text-base"
+
+/**
+ * Color picker that tints only itself while the picker is open and reports the
+ * color once it closes, instead of saving on every step of a drag.
+ */
+function TagColorInput({ color, onCommit }: { color: string; onCommit: (color: string) => void }) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [draft, setDraft] = useState(color)
+
+  useEffect(() => setDraft(color), [color])
+
+  // React's onChange fires on every input event; the native change event only
+  // once the picker is dismissed
+  useEffect(() => {
+    const input = inputRef.current
+    if (!input) return
+    const handler = () => {
+      if (input.value !== color) onCommit(input.value)
+    }
+    input.addEventListener("change", handler)
+    return () => input.removeEventListener("change", handler)
+  }, [color, onCommit])
+
+  return (
+    <input
+      ref={inputRef}
+      type="color"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      className="size-8 shrink-0 cursor-pointer rounded-full border-0 bg-transparent p-0"
+      title="Tag color"
+    />
+  )
+}
+
+export function ManageTagsDialog({
+  open,
+  onOpenChange,
+  container,
+  tags,
+  deleted,
+  onCreate,
+  onRename,
+  onRecolor,
+  onSetParent,
+  onToggleHide,
+  onMerge,
+  onDelete,
+  onUndoDelete,
+}: ManageTagsDialogProps) {
+  const [newTag, setNewTag] = useState("")
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState("")
+
+  const createTag = () => {
+    const name = newTag.trim()
+    if (!name) return
+    onCreate(name)
+    setNewTag("")
+  }
+
+  const startRename = (tag: Tag) => {
+    setEditingId(tag.id)
+    setEditingName(tag.name)
+  }
+
+  const commitRename = () => {
+    const name = editingName.trim()
+    if (editingId && name) onRename(editingId, name)
+    setEditingId(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} modal={false}>
+      <DialogTrigger asChild>
+        <Button size="icon" variant="ghost">
+          <Edit2Icon className="size-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent container={container} showOverlay={false}>
+        <DialogTitle>Manage tags</DialogTitle>
+        <DialogDescription>
+          Click a name to rename it. Nest tags under a parent to filter them as a group. Hidden tags
+          remove their channels from every page; shorts shelves don't name the channel, so a short
+          is only hidden once it was seen with its channel, e.g. on the channel page. Drag tags in
+          the panel to reorder.
+        </DialogDescription>
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && createTag()}
+              placeholder="New tag"
+            />
+            <Button onClick={createTag}>Add</Button>
+          </div>
+          <div className="max-h-96 space-y-2 overflow-y-auto">
+            {flattenTagTree(tags).map(({ tag, depth }) => (
+              <div
+                key={tag.id}
+                className="flex items-center gap-2"
+                style={{ paddingLeft: `${depth * 1.5}rem` }}
+              >
+                <TagColorInput color={tag.color} onCommit={(color) => onRecolor(tag.id, color)} />
+                {editingId === tag.id ? (
+                  <Input
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename()
+                      if (e.key === "Escape") setEditingId(null)
+                    }}
+                    className="h-10"
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    className="min-w-0 flex-1 text-left"
+                    onClick={() => startRename(tag)}
+                  >
+                    <Badge className="max-w-full truncate">{tag.name}</Badge>
+                  </button>
+                )}
+                <select
+                  value={tag.parentId ?? ""}
+                  onChange={(e) => onSetParent(tag.id, e.target.value || undefined)}
+                  className={SELECT_CLASS}
+                  title={`Parent of ${tag.name}`}
+                >
+                  <option value="">No parent</option>
+                  {getParentCandidates(tags, tag.id).map((other) => (
+                    <option key={other.id} value={other.id}>
+                      {other.name}
+                    </option>
+                  ))}
+                </select>
+                {tags.length > 1 && (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && onMerge(tag.id, e.target.value)}
+                    className={SELECT_CLASS}
+                    title={`Merge ${tag.name} into another tag`}
+                  >
+                    <option value="">Merge into…</option>
+                    {tags
+                      .filter((other) => !getTagWithDescendants(tags, tag.id).includes(other.id))
+                      .map((other) => (
+                        <option key={other.id} value={other.id}>
+                          {other.name}
+                        </option>
+                      ))}
+                  </select>
+                )}
+                <Button
+                  size="icon"
+                  variant={tag.hide ? "secondary" : "ghost"}
+                  onClick={() => onToggleHide(tag.id)}
+                  title={tag.hide ? "Stop hiding these channels" : "Hide these channels everywhere"}
+                >
+                  <EyeOff className={tag.hide ? "size-5" : "size-5 opacity-40"} />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => onDelete(tag.id)}
+                  title="Delete tag"
+                >
+                  <X className="size-5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          {deleted.map(({ tag, channelUrls }) => (
+            <div
+              key={tag.id}
+              className="flex items-center justify-between gap-2 rounded-md bg-[hsl(var(--muted))] p-3 text-lg"
+            >
+              <span className="truncate">
+                Deleted “{tag.name}”
+                {channelUrls.length > 0 && ` from ${channelUrls.length} channel(s)`}
+              </span>
+              <Button size="sm" variant="secondary" onClick={() => onUndoDelete(tag.id)}>
+                Undo
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
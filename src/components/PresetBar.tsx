@@ -0,0 +1,83 @@
+import { BookmarkPlus, X } from "lucide-react"
+import { useState } from "react"
+import type { FilterPreset } from "../lib/presets"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+
+type PresetBarProps = {
+  presets: FilterPreset[]
+  activePresetId: string | null
+  onApply: (preset: FilterPreset) => void
+  onSave: (name: string) => void
+  onDelete: (id: string) => void
+}
+
+export function PresetBar({ presets, activePresetId, onApply, onSave, onDelete }: PresetBarProps) {
+  const [saving, setSaving] = useState(false)
+  const [name, setName] = useState("")
+
+  const save = () => {
+    const trimmed = name.trim()
+    if (trimmed) onSave(trimmed)
+    setName("")
+    setSaving(false)
+  }
+
+  return (
+    <div className="flex w-full flex-wrap items-center gap-2">
+      {presets.map((preset) => (
+        <Badge
+          key={preset.id}
+          variant={preset.id === activePresetId ? "active" : "default"}
+          className="group gap-1 pr-2"
+        >
+          <button
+            type="button"
+            onClick={() => onApply(preset)}
+            title="Apply view (bookmark the page to keep it)"
+          >
+            {preset.name}
+          </button>
+          <button
+            type="button"
+            onClick={() => onDelete(preset.id)}
+            className="opacity-0 transition-opacity group-hover:opacity-70"
+            title="Delete view"
+          >
+            <X className="size-4" />
+          </button>
+        </Badge>
+      ))}
+      {saving ? (
+        <div className="flex gap-2">
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") save()
+              if (e.key === "Escape") setSaving(false)
+            }}
+            placeholder="View name"
+            className="h-9 w-40"
+          />
+          <Button size="sm" onClick={save}>
+            Save
+          </Button>
+        </div>
+      ) : (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setSaving(true)}
+          className="gap-2"
+          title="Save the current filters and layout as a view"
+        >
+          <BookmarkPlus className="size-5" />
+          Save view
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+import { Wand2, X } from "lucide-react"
+import { useState } from "react"
+import {
+  compilePattern,
+  describeRule,
+  getPatternError,
+  RULE_FIELDS,
+  type RuleCondition,
+  type RuleField,
+  type RuleMatchPreview,
+  type TagRule,
+} from "../lib/rules"
+import type { Tag } from "../lib/types"
+import { Button } from "./ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle, DialogTrigger } from "./ui/dialog"
+import { Input } from "./ui/input"
+
+/** Id of the unsaved rule in the form, so it can be previewed before adding. */
+export const DRAFT_RULE_ID = "__draft"
+
+type RulesDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  container: HTMLElement
+  tags: Tag[]
+  rules: TagRule[]
+  preview: Record<string, RuleMatchPreview> | null
+  onAdd: (condition: RuleCondition, tagId: string) => void
+  onToggle: (id: string) => void
+  onDelete: (id: string) => void
+  onPreview: (rules: TagRule[]) => void
+}
+
+const SELECT_CLASS =
+  "h-9 shrink-0 rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--card))] px-2 text-base"
+
+function PreviewLine({ preview }: { preview: RuleMatchPreview | undefined }) {
+  if (!preview) return null
+  return (
+    <p className="truncate text-base text-[hsl(var(--muted-foreground))]">
+      {preview.count} match(es) on this page
+      {preview.samples.length > 0 && `: ${preview.samples.join(" · ")}`}
+    </p>
+  )
+}
+
+export function RulesDialog({
+  open,
+  onOpenChange,
+  container,
+  tags,
+  rules,
+  preview,
+  onAdd,
+  onToggle,
+  onDelete,
+  onPreview,
+}: RulesDialogProps) {
+  const [field, setField] = useState<RuleField>("title")
+  const [value, setValue] = useState("")
+  const [op, setOp] = useState<"gt" | "lt">("gt")
+  const [tagId, setTagId] = useState("")
+
+  const buildCondition = (): RuleCondition | null => {
+    const trimmed = value.trim()
+    if (!trimmed) return null
+    if (field === "title") return compilePattern(trimmed) ? { field, pattern: trimmed } : null
+    if (field === "channel") return { field, contains: trimmed }
+    const minutes = Number(trimmed)
+    return Number.isFinite(minutes) && minutes >= 0 ? { field, op, minutes } : null
+  }
+
+  const condition = buildCondition()
+  const patternError =
+    field === "title" && value.trim() !== "" ? getPatternError(value.trim()) : null
+  const draft: TagRule | null =
+    condition && tagId ? { id: DRAFT_RULE_ID, condition, tagId, enabled: true } : null
+
+  const add = () => {
+    if (!condition || !tagId) return
+    onAdd(condition, tagId)
+    setValue("")
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} modal={false}>
+      <DialogTrigger asChild>
+        <Button size="icon" variant="ghost" title="Tagging rules">
+          <Wand2 className="size-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent container={container} showOverlay={false}>
+        <DialogTitle>Tagging rules</DialogTitle>
+        <DialogDescription>
+          Title and duration rules tag matching videos. Channel rules suggest a tag when you tag a
+          channel.
+        </DialogDescription>
+        <div className="space-y-4">
+          <div className="max-h-80 space-y-2 overflow-y-auto">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => onToggle(rule.id)}
+                  className="mt-2 size-4 shrink-0"
+                  title={rule.enabled ? "Disable rule" : "Enable rule"}
+                />
+                <div className="min-w-0 flex-1">
+                  <p className={rule.enabled ? "text-lg" : "text-lg opacity-50"}>
+                    {describeRule(rule, tags)}
+                  </p>
+                  <PreviewLine preview={preview?.[rule.id]} />
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => onDelete(rule.id)}
+                  title="Delete rule"
+                >
+                  <X className="size-5" />
+                </Button>
+              </div>
+            ))}
+            {rules.length === 0 && (
+              <p className="text-lg text-[hsl(var(--muted-foreground))]">No rules yet.</p>
+            )}
+          </div>
+
+          <div className="space-y-2 border-t border-[hsl(var(--border))] pt-4">
+            <div className="flex gap-2">
+              <select
+                value={field}
+                onChange={(e) => setField(e.target.value as RuleField)}
+                className={SELECT_CLASS}
+                title="Condition"
+              >
+                {RULE_FIELDS.map(({ id, label }) => (
+                  <option key={id} value={id}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {field === "duration" && (
+                <select
+                  value={op}
+                  onChange={(e) => setOp(e.target.value as "gt" | "lt")}
+                  className={SELECT_CLASS}
+                  title="Comparison"
+                >
+                  <option value="gt">longer than</option>
+                  <option value="lt">shorter than</option>
+                </select>
+              )}
+              <Input
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && add()}
+                placeholder={
+                  field === "title" ? "F1|MotoGP" : field === "channel" ? "podcast" : "Minutes"
+                }
+                inputMode={field === "duration" ? "numeric" : undefined}
+                className="h-9"
+              />
+            </div>
+            {patternError && (
+              <p className="text-base text-[hsl(var(--destructive))]">{patternError}</p>
+            )}
+            <div className="flex gap-2">
+              <select
+                value={tagId}
+                onChange={(e) => setTagId(e.target.value)}
+                className={`${SELECT_CLASS} min-w-0 flex-1`}
+                title="Tag"
+              >
+                <option value="">Choose a tag…</option>
+                {tags.map((tag) => (
+                  <option key={tag.id} value={tag.id}>
+                    {tag.name}
+                  </option>
+                ))}
+              </select>
+              <Button size="sm" onClick={add} disabled={!draft}>
+                Add rule
+              </Button>
+            </div>
+            {draft && <PreviewLine preview={preview?.[DRAFT_RULE_ID]} />}
+          </div>
+
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => onPreview(draft ? [...rules, draft] : rules)}
+            disabled={!draft && rules.length === 0}
+          >
+            Preview on this page
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,109 @@
+import { X } from "lucide-react"
+import { useState } from "react"
+import { getPatternError } from "../lib/rules"
+import { TITLE_INCLUDE_KEY, type TitleRule } from "../lib/titles"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+
+type TitleFilterBarProps = {
+  rules: TitleRule[]
+  /** Cards hidden on the current page, by rule id or `TITLE_INCLUDE_KEY`. */
+  hiddenCounts: Record<string, number>
+  onAdd: (text: string, mode: TitleRule["mode"], regex: boolean) => void
+  onToggle: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+function HiddenCount({ count }: { count: number | undefined }) {
+  if (!count) return null
+  return (
+    <span className="font-bold opacity-70 text-[hsl(var(--secondary))]" title="Hidden on this page">
+      {count}
+    </span>
+  )
+}
+
+export function TitleFilterBar({
+  rules,
+  hiddenCounts,
+  onAdd,
+  onToggle,
+  onDelete,
+}: TitleFilterBarProps) {
+  const [text, setText] = useState("")
+  const [mode, setMode] = useState<TitleRule["mode"]>("exclude")
+  const [regex, setRegex] = useState(false)
+
+  const trimmed = text.trim()
+  const patternError = regex && trimmed !== "" ? getPatternError(trimmed) : null
+  const invalid = patternError !== null
+
+  const add = () => {
+    if (!trimmed || invalid) return
+    onAdd(trimmed, mode, regex)
+    setText("")
+  }
+
+  const hasIncludes = rules.some((rule) => rule.enabled && rule.mode === "include")
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {rules.map((rule) => (
+          <Badge
+            key={rule.id}
+            variant={!rule.enabled ? "default" : rule.mode === "include" ? "active" : "excluded"}
+            className={rule.enabled ? "group gap-1 pr-2" : "group gap-1 pr-2 opacity-50"}
+          >
+            <button
+              type="button"
+              onClick={() => onToggle(rule.id)}
+              title={rule.enabled ? "Turn off" : "Turn on"}
+            >
+              {rule.regex ? `/${rule.text}/` : rule.text}
+            </button>
+            {rule.mode === "exclude" && <HiddenCount count={hiddenCounts[rule.id]} />}
+            <button
+              type="button"
+              onClick={() => onDelete(rule.id)}
+              className="opacity-0 transition-opacity group-hover:opacity-70"
+              title="Delete title filter"
+            >
+              <X className="size-4" />
+            </button>
+          </Badge>
+        ))}
+        {hasIncludes && hiddenCounts[TITLE_INCLUDE_KEY] > 0 && (
+          <span className="text-base text-[hsl(var(--muted-foreground))]">
+            {hiddenCounts[TITLE_INCLUDE_KEY]} without an included word
+          </span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => setMode((prev) => (prev === "include" ? "exclude" : "include"))}
+          title="Show only matching titles, or hide them"
+        >
+          {mode === "include" ? "Include" : "Exclude"}
+        </Button>
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && add()}
+          placeholder={regex ? "reaction|sponsored" : "Title word"}
+          className="h-9"
+        />
+        <button type="button" onClick={() => setRegex((prev) => !prev)} title="Regular expression">
+          <Badge variant={regex ? "active" : "default"}>.*</Badge>
+        </button>
+        <Button size="sm" onClick={add} disabled={!trimmed || invalid}>
+          Add
+        </Button>
+      </div>
+      {patternError && <p className="text-base text-[hsl(var(--destructive))]">{patternError}</p>}
+    </div>
+  )
+}
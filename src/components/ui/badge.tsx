@@ -9,6 +9,8 @@ const badgeVariants = cva(
       variant: {
         default: "bg-[hsl(var(--card))] text-[hsl(var(--foreground))]",
         active: "bg-[hsl(var(--accent))] text-[hsl(var(--accent-foreground))]",
+        excluded:
+          "bg-[hsl(var(--card))] border-[hsl(var(--destructive))] text-[hsl(var(--destructive))] line-through",
       },
       size: {
         default: "px-4 py-2 text-lg",
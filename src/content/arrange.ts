@@ -0,0 +1,134 @@
+import { UNTAGGED_TAG_ID } from "../lib/filters"
+import type { FeedArrangement } from "../lib/surfaces"
+import { flattenTagTree, getTagPath } from "../lib/tags"
+import { getActivePage, getCardChannelName, getCardTags, getCardVideoId } from "./cards"
+import {
+  CHANNEL_URL_MARK,
+  GRID_CONTENTS_SELECTOR,
+  GROUP_HEADER_MARK,
+  HIDDEN_MARK,
+  VIDEO_CARD_SELECTOR,
+} from "./constants"
+import { state } from "./state"
+
+// Cards are reordered with CSS `order` rather than moved, so YouTube can keep
+// appending continuation items and re-rendering the grid without losing them
+const GROUP_STRIDE = 100000
+const LAST_ORDER = 1000000000
+
+const GROUP_HEADER_STYLES =
+  "flex-basis:100%;width:100%;margin:24px 0 8px;padding-left:10px;border-left:4px solid;font-size:20px;font-weight:600;color:var(--yt-spec-text-primary,#f1f1f1);"
+
+/**
+ * What each grid was last laid out from. Filtering runs every frame that
+ * cards change; the grid is only rearranged when its layout would differ.
+ */
+const gridLayouts = new WeakMap<HTMLElement, string>()
+
+function setOrder(el: HTMLElement, order: number): void {
+  if (el.style.order !== String(order)) el.style.order = String(order)
+}
+
+function isCardVisible(card: HTMLElement): boolean {
+  return card.style.display !== "none" && card.getAttribute(HIDDEN_MARK) !== "hidden"
+}
+
+/** The first tag of the card in panel order, or the Untagged group. */
+function getCardGroup(card: Element, tagIds: string[]): string {
+  const assigned = getCardTags(card) ?? []
+  return tagIds.find((id) => assigned.includes(id)) ?? UNTAGGED_TAG_ID
+}
+
+function ensureGroupHeader(grid: HTMLElement, id: string, order: number, count: number): void {
+  const selector = `:scope > [${GROUP_HEADER_MARK}="${CSS.escape(id)}"]`
+  let header = grid.querySelector<HTMLElement>(selector)
+  if (!header) {
+    header = document.createElement("div")
+    header.setAttribute(GROUP_HEADER_MARK, id)
+    header.style.cssText = GROUP_HEADER_STYLES
+    grid.appendChild(header)
+  }
+  const tag = state.tagList.find((t) => t.id === id)
+  const label = `${tag ? getTagPath(state.tagList, id) : "Untagged"} · ${count}`
+  if (header.textContent !== label) header.textContent = label
+  header.style.borderLeftColor = tag?.color ?? "#aaa"
+  header.style.display = count > 0 ? "" : "none"
+  setOrder(header, order)
+}
+
+/** Remove group headers other than those for `keep`. */
+function removeGroupHeaders(grid: HTMLElement, keep: string[]): void {
+  grid.querySelectorAll(`:scope > [${GROUP_HEADER_MARK}]`).forEach((header) => {
+    if (!keep.includes(header.getAttribute(GROUP_HEADER_MARK) ?? "")) header.remove()
+  })
+}
+
+function groupGridByTag(grid: HTMLElement, cards: HTMLElement[], groups: string[]): void {
+  const counts = new Map<string, number>()
+  cards.forEach((card, i) => {
+    const group = getCardGroup(card, groups)
+    setOrder(card, (groups.indexOf(group) + 1) * GROUP_STRIDE + i + 1)
+    if (isCardVisible(card)) counts.set(group, (counts.get(group) ?? 0) + 1)
+  })
+  groups.forEach((id, index) => {
+    ensureGroupHeader(grid, id, (index + 1) * GROUP_STRIDE, counts.get(id) ?? 0)
+  })
+  removeGroupHeaders(grid, groups)
+}
+
+function getSortName(card: Element): string {
+  return getCardChannelName(card) || card.getAttribute(CHANNEL_URL_MARK) || ""
+}
+
+function sortGridByChannel(grid: HTMLElement, cards: HTMLElement[]): void {
+  removeGroupHeaders(grid, [])
+  // Array.prototype.sort is stable, so each channel keeps its feed order
+  const sorted = cards.map((card) => ({ card, name: getSortName(card) }))
+  sorted.sort((a, b) => a.name.localeCompare(b.name))
+  sorted.forEach(({ card }, i) => {
+    setOrder(card, GROUP_STRIDE + i)
+  })
+}
+
+/** Everything the layout of `cards` depends on, in feed order. */
+function getLayoutKey(arrange: FeedArrangement, cards: HTMLElement[], groups: string[]): string {
+  const cardKeys = cards.map((card) =>
+    arrange === "tag"
+      ? `${getCardVideoId(card)} ${getCardGroup(card, groups)} ${isCardVisible(card)}`
+      : `${getCardVideoId(card)} ${getSortName(card)}`
+  )
+  return [arrange, ...(arrange === "tag" ? groups : []), ...cardKeys].join("\n")
+}
+
+function resetGrid(grid: HTMLElement): void {
+  gridLayouts.delete(grid)
+  removeGroupHeaders(grid, [])
+  Array.from(grid.children).forEach((child) => {
+    const el = child as HTMLElement
+    if (el.style.order) el.style.order = ""
+  })
+}
+
+/** Lay out the grids of the current page; grids on pages YouTube keeps hidden are reset. */
+export function arrangeFeeds(arrange: FeedArrangement): void {
+  const page = getActivePage()
+  document.querySelectorAll<HTMLElement>(GRID_CONTENTS_SELECTOR).forEach((grid) => {
+    if (arrange === "feed" || (page && !page.contains(grid))) {
+      resetGrid(grid)
+      return
+    }
+    const children = Array.from(grid.children) as HTMLElement[]
+    const cards = children.filter((child) => child.matches(VIDEO_CARD_SELECTOR))
+    // Shelves stay on top and the infinite scroll trigger at the bottom
+    for (const child of children) {
+      if (child.matches("ytd-continuation-item-renderer")) setOrder(child, LAST_ORDER)
+    }
+    const groups = [...flattenTagTree(state.tagList).map(({ tag }) => tag.id), UNTAGGED_TAG_ID]
+    const layout = getLayoutKey(arrange, cards, groups)
+    // Cards YouTube rendered anew have no order yet, even for the same videos
+    if (gridLayouts.get(grid) === layout && cards.every((card) => card.style.order)) return
+    gridLayouts.set(grid, layout)
+    if (arrange === "tag") groupGridByTag(grid, cards, groups)
+    else sortGridByChannel(grid, cards)
+  })
+}
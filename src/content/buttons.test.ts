@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { FIXTURES, getCard, listen, loadPage, removeListeners } from "../test/dom"
+import { addTagButtonToCard, addTagButtonToChannelHeader, updateTagButtonLabels } from "./buttons"
+import { invalidateCardTags } from "./cards"
+import { CARD_BTN_MARK, CHANNEL_HEADER_MARK, CHANNEL_URL_MARK } from "./constants"
+import { resetState, state } from "./state"
+
+beforeEach(() => {
+  resetState()
+  invalidateCardTags()
+})
+
+afterEach(removeListeners)
+
+describe("addTagButtonToCard", () => {
+  it("adds one button to the thumbnail and marks the card's channel", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    state.channelTagMap = { "https://www.youtube.com/@speedcrew": ["racing"] }
+    const card = getCard("card-racing")
+
+    addTagButtonToCard(card)
+    addTagButtonToCard(card)
+
+    const buttons = card.querySelectorAll(`button[${CARD_BTN_MARK}]`)
+    expect(buttons).toHaveLength(1)
+    expect(buttons[0].parentElement?.tagName).toBe("YTD-THUMBNAIL")
+    expect(buttons[0].textContent).toBe("1 Tag")
+    expect(card.getAttribute(CHANNEL_URL_MARK)).toBe("https://www.youtube.com/@speedcrew")
+  })
+
+  it("opens the assign popover for the card's channel and video", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    const opened = listen("ytx-open-assign")
+    const card = getCard("card-racing")
+    addTagButtonToCard(card)
+
+    card.querySelector<HTMLButtonElement>(`button[${CARD_BTN_MARK}]`)?.click()
+
+    expect(opened).toHaveBeenCalledTimes(1)
+    expect(opened.mock.calls[0][0].detail).toMatchObject({
+      channelUrl: "https://www.youtube.com/@speedcrew",
+      channelName: "Speed Crew",
+      videoId: "racing00001",
+      videoTitle: "Lap record at Spa",
+    })
+  })
+
+  it("replaces the button when the card is reused for another video", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    state.videoTagMap = { racing00002: { tags: ["cars", "spa"], mode: "add" } }
+    const card = getCard("card-racing")
+    addTagButtonToCard(card)
+
+    card.querySelector("a#thumbnail")?.setAttribute("href", "/watch?v=racing00002")
+    addTagButtonToCard(card)
+
+    const buttons = card.querySelectorAll(`button[${CARD_BTN_MARK}]`)
+    expect(buttons).toHaveLength(1)
+    expect(buttons[0].textContent).toBe("2 Tag")
+  })
+
+  it("relabels buttons after tags change", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    const card = getCard("card-racing")
+    addTagButtonToCard(card)
+    const button = card.querySelector(`button[${CARD_BTN_MARK}]`)
+    expect(button?.textContent).toBe("Tag")
+
+    state.channelTagMap = { "https://www.youtube.com/@speedcrew": ["racing", "cars"] }
+    updateTagButtonLabels()
+    expect(button?.textContent).toBe("2 Tag")
+  })
+})
+
+describe("addTagButtonToChannelHeader", () => {
+  it("adds the button next to the name in the tabbed header", () => {
+    loadPage(FIXTURES.channelHeaderC4, "/@speedcrew/videos")
+    const opened = listen("ytx-open-assign")
+
+    addTagButtonToChannelHeader()
+    addTagButtonToChannelHeader()
+
+    const buttons = document.querySelectorAll<HTMLButtonElement>(`button[${CHANNEL_HEADER_MARK}]`)
+    expect(buttons).toHaveLength(1)
+    expect(buttons[0].parentElement?.tagName).toBe("YTD-CHANNEL-NAME")
+    buttons[0].click()
+    expect(opened.mock.calls[0][0].detail).toMatchObject({
+      channelUrl: "https://www.youtube.com/@speedcrew",
+      channelName: "Speed Crew",
+    })
+  })
+
+  it("adds the button to the page header and reports the handle as an alias", () => {
+    loadPage(FIXTURES.channelHeaderPage, "/channel/UCpixel00000000000000000")
+    const aliases = listen("ytx-channel-aliases")
+
+    addTagButtonToChannelHeader()
+
+    const button = document.querySelector(`button[${CHANNEL_HEADER_MARK}]`)
+    expect(button?.parentElement?.tagName).toBe("YT-DYNAMIC-TEXT-VIEW-MODEL")
+    expect(button?.getAttribute("data-channel-url")).toBe(
+      "https://www.youtube.com/channel/UCpixel00000000000000000"
+    )
+    expect(aliases.mock.calls[0][0].detail.urls).toEqual([
+      "https://www.youtube.com/@pixelplays",
+      "https://www.youtube.com/channel/UCpixel00000000000000000",
+    ])
+  })
+
+  it("does nothing outside channel pages", () => {
+    loadPage(FIXTURES.channelHeaderC4, "/feed/subscriptions")
+    addTagButtonToChannelHeader()
+    expect(document.querySelector(`button[${CHANNEL_HEADER_MARK}]`)).toBeNull()
+  })
+})
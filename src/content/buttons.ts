@@ -0,0 +1,260 @@
+import { getChannelTags } from "../lib/channels"
+import { applyVideoTags } from "../lib/videos"
+import {
+  type CardVideo,
+  findAllChannelLinks,
+  findChannelLink,
+  getCardState,
+  getCardVideo,
+  getCardVideoId,
+} from "./cards"
+import {
+  findAvatarUrl,
+  findChannelPageAliases,
+  reportChannelAliases,
+  reportChannelSeen,
+} from "./channels"
+import {
+  CARD_BTN_MARK,
+  CARD_MARK,
+  CHANNEL_HEADER_MARK,
+  CHANNEL_LIST_ITEM_SELECTOR,
+  CHANNEL_URL_MARK,
+  VIDEO_CARD_SELECTOR,
+  VIDEO_ID_MARK,
+} from "./constants"
+import { getChannelPageUrl, isChannelPage } from "./page"
+import { queryFirst } from "./selectors"
+import { state } from "./state"
+
+// =============================================================================
+// Tag Button Factory
+// =============================================================================
+
+type TagButtonVariant = "card" | "header"
+
+type TagButtonConfig = {
+  channelUrl: string
+  channelName: string
+  /** Set on card buttons so their label includes the video's own tags. */
+  videoId?: string | null
+  variant: TagButtonVariant
+}
+
+// Colors for tag button states; tagged channels use their first tag's color
+const TAG_BUTTON_COLOR_DEFAULT = "hsl(0 0% 100%)" // White
+export const TAG_BUTTON_COLOR_HOVER = "hsl(204 100% 62%)" // Lighter primary blue
+
+const TAG_BUTTON_STYLES: Record<TagButtonVariant, string> = {
+  card: `position:absolute;bottom:6px;right:6px;font-size:11px;padding:4px 12px;border-radius:6px;border:1px solid ${TAG_BUTTON_COLOR_DEFAULT};background:rgba(15,15,15,0.9);color:${TAG_BUTTON_COLOR_DEFAULT};cursor:pointer;font-weight:500;z-index:10;transition:color 0.15s,border-color 0.15s;`,
+  header: `margin-left:8px;font-size:12px;padding:4px 12px;border-radius:6px;border:1px solid ${TAG_BUTTON_COLOR_DEFAULT};background:#0f0f0f;color:${TAG_BUTTON_COLOR_DEFAULT};cursor:pointer;font-weight:500;vertical-align:middle;transition:color 0.15s,border-color 0.15s;`,
+}
+
+/** The channel's tags, combined with the video's own tags when given a video. */
+function getAssignedTags(channelUrl: string, videoId?: string | null): string[] {
+  const channelTags = getChannelTags(state.channelTagMap, state.channelAliases, channelUrl)
+  return applyVideoTags(channelTags, videoId ? state.videoTagMap[videoId] : undefined)
+}
+
+function getTagButtonLabel(channelUrl: string, videoId?: string | null): string {
+  const count = getAssignedTags(channelUrl, videoId).length
+  return count > 0 ? `${count} Tag` : "Tag"
+}
+
+function getTagColor(channelUrl: string, videoId?: string | null): string | null {
+  const assigned = getAssignedTags(channelUrl, videoId)
+  if (!assigned.length) return null
+  return state.tagList.find((tag) => assigned.includes(tag.id))?.color ?? TAG_BUTTON_COLOR_HOVER
+}
+
+function applyTagButtonColor(btn: HTMLElement, channelUrl: string, videoId?: string | null): void {
+  const color = getTagColor(channelUrl, videoId) ?? TAG_BUTTON_COLOR_DEFAULT
+  btn.style.color = color
+  btn.style.borderColor = color
+}
+
+function createTagButton(config: TagButtonConfig): HTMLButtonElement {
+  const { channelUrl, channelName, videoId, variant } = config
+
+  const btn = document.createElement("button")
+  btn.setAttribute(variant === "card" ? CARD_BTN_MARK : CHANNEL_HEADER_MARK, "1")
+  btn.setAttribute("data-channel-url", channelUrl)
+  if (videoId) btn.setAttribute(VIDEO_ID_MARK, videoId)
+  btn.textContent = getTagButtonLabel(channelUrl, videoId)
+  btn.style.cssText = TAG_BUTTON_STYLES[variant]
+  btn.type = "button"
+
+  // Apply initial color based on tag count
+  applyTagButtonColor(btn, channelUrl, videoId)
+
+  // Hover effects (only change color on hover if no tags)
+  btn.addEventListener("mouseenter", () => {
+    btn.style.color = TAG_BUTTON_COLOR_HOVER
+    btn.style.borderColor = TAG_BUTTON_COLOR_HOVER
+  })
+  btn.addEventListener("mouseleave", () => {
+    applyTagButtonColor(btn, channelUrl, videoId)
+  })
+
+  btn.addEventListener("click", (e) => {
+    e.stopPropagation()
+    e.preventDefault()
+    const card = btn.closest(VIDEO_CARD_SELECTOR)
+    dispatchAssign(channelUrl, channelName, e.clientX, e.clientY, card && getCardVideo(card))
+  })
+
+  return btn
+}
+
+export function updateTagButtonLabels(): void {
+  const buttons = document.querySelectorAll<HTMLElement>(
+    `button[${CARD_BTN_MARK}], button[${CHANNEL_HEADER_MARK}]`
+  )
+  buttons.forEach((btn) => {
+    const channelUrl = btn.getAttribute("data-channel-url")
+    const videoId = btn.getAttribute(VIDEO_ID_MARK)
+    if (channelUrl) {
+      btn.textContent = getTagButtonLabel(channelUrl, videoId)
+      applyTagButtonColor(btn, channelUrl, videoId)
+    }
+  })
+}
+
+export function dispatchAssign(
+  channelUrl: string,
+  channelName: string,
+  x: number,
+  y: number,
+  video?: CardVideo | null
+) {
+  window.dispatchEvent(
+    new CustomEvent("ytx-open-assign", {
+      detail: { channelUrl, channelName, x, y, ...video },
+    })
+  )
+}
+
+// =============================================================================
+// Tag Button Injection
+// =============================================================================
+
+export function addTagButtonToChannelHeader(): void {
+  if (!isChannelPage()) return
+  if (document.querySelector(`[${CHANNEL_HEADER_MARK}]`)) return
+
+  const channelNameEl = queryFirst(document, "channelPageName")
+  const channelName = channelNameEl?.textContent?.trim() || "Channel"
+
+  reportChannelAliases(findChannelPageAliases(channelName))
+
+  const channelUrl = getChannelPageUrl()
+  if (channelNameEl) {
+    const header = document.querySelector("#page-header, #channel-header") ?? document
+    reportChannelSeen({ url: channelUrl, name: channelName, avatar: findAvatarUrl(header) })
+  }
+  const btn = createTagButton({ channelUrl, channelName, variant: "header" })
+
+  // Try to insert next to channel name element
+  if (channelNameEl) {
+    const container = channelNameEl.closest("ytd-channel-name") as HTMLElement | null
+    if (container) {
+      container.style.display = "inline-flex"
+      container.style.alignItems = "center"
+      container.appendChild(btn)
+      return
+    }
+    const parent = channelNameEl.parentElement
+    if (parent) {
+      parent.style.display = "inline-flex"
+      parent.style.alignItems = "center"
+      parent.appendChild(btn)
+      return
+    }
+  }
+
+  // Fallback: Insert into header container
+  const headerContainer =
+    document.querySelector("#page-header") || document.querySelector("#contentContainer")
+  if (headerContainer) {
+    const channelInfo = headerContainer.querySelector(
+      "#channel-header-container, #inner-header-container, .page-header-view-model-wiz__page-header-headline"
+    )
+    if (channelInfo) {
+      ;(channelInfo as HTMLElement).style.display = "flex"
+      ;(channelInfo as HTMLElement).style.alignItems = "center"
+      channelInfo.appendChild(btn)
+      return
+    }
+    headerContainer.appendChild(btn)
+  }
+}
+
+/**
+ * Remember which channel a card belongs to; used by filters and the hide rule.
+ * Returns the channel link, or null for cards without one.
+ */
+export function markCardChannel(card: Element): HTMLAnchorElement | null {
+  const cached = getCardState(card)
+  cached.channelLinks ??= findAllChannelLinks(card)
+  const links = cached.channelLinks
+  const link = links[0]
+  const { videoId } = cached
+  if (!link) {
+    // Shorts shelf items name no channel. On a channel page it's that channel;
+    // elsewhere only videos already seen with their channel can be matched
+    const channelUrl =
+      (isChannelPage() ? getChannelPageUrl() : null) ??
+      (videoId ? state.videoChannels[videoId] : undefined)
+    if (!channelUrl) {
+      card.removeAttribute(CHANNEL_URL_MARK)
+      return null
+    }
+    if (videoId) state.videoChannels[videoId] = channelUrl
+    card.setAttribute(CHANNEL_URL_MARK, channelUrl)
+    return null
+  }
+  if (videoId) state.videoChannels[videoId] = link.href
+  reportChannelAliases(links.map((l) => l.href))
+
+  card.setAttribute(CHANNEL_URL_MARK, link.href)
+  const name = links.map((l) => l.textContent?.trim()).find(Boolean)
+  if (name) reportChannelSeen({ url: link.href, name, avatar: findAvatarUrl(card) })
+  return link
+}
+
+export function scanChannelList(): void {
+  document.querySelectorAll(CHANNEL_LIST_ITEM_SELECTOR).forEach((item) => {
+    const link = item.querySelector<HTMLAnchorElement>("a#main-link") ?? findChannelLink(item)
+    const name = item.querySelector("#channel-title #text, #text")?.textContent?.trim()
+    if (link?.href && name) reportChannelSeen({ url: link.href, name, avatar: findAvatarUrl(item) })
+  })
+}
+
+export function addTagButtonToCard(card: Element): void {
+  const link = markCardChannel(card)
+  if (!link) return
+
+  const existing = card.querySelector<HTMLButtonElement>(`button[${CARD_BTN_MARK}]`)
+  const currentUrl = card.getAttribute(CHANNEL_URL_MARK)
+  const marked = card.getAttribute(CARD_MARK) === "1"
+  // YouTube reuses card elements, so the video can change under the same channel
+  const videoId = getCardVideoId(card)
+  const sameVideo = existing?.getAttribute(VIDEO_ID_MARK) === videoId
+  if (marked && existing && currentUrl === link.href && sameVideo) return
+
+  if (existing) existing.remove()
+
+  const channelName = link.textContent?.trim() || "Channel"
+  const btn = createTagButton({ channelUrl: link.href, channelName, videoId, variant: "card" })
+
+  const thumbnail = queryFirst<HTMLElement>(card, "thumbnail")
+  if (thumbnail) {
+    thumbnail.style.position = "relative"
+    thumbnail.appendChild(btn)
+  } else {
+    const cardEl = card as HTMLElement
+    cardEl.style.position = "relative"
+    cardEl.appendChild(btn)
+  }
+  card.setAttribute(CARD_MARK, "1")
+}
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { FIXTURES, getCard, loadPage } from "../test/dom"
+import {
+  findAllChannelLinks,
+  getCardAgeDays,
+  getCardDuration,
+  getCardTags,
+  getCardTitle,
+  getCardVideoId,
+  getContentType,
+  getWatchProgress,
+  invalidateCardTags,
+  queryAllCards,
+} from "./cards"
+import { CHANNEL_URL_MARK } from "./constants"
+import { observeFeed } from "./scan"
+import { resetState, state } from "./state"
+
+beforeEach(() => {
+  resetState()
+  invalidateCardTags()
+})
+
+describe("findAllChannelLinks", () => {
+  it("puts the avatar link first and keeps the byline link as an alias", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    const links = findAllChannelLinks(getCard("card-games")).map((link) => link.href)
+    expect(links).toEqual([
+      "https://www.youtube.com/channel/UCgames00000000000000000",
+      "https://www.youtube.com/@pixelplays",
+    ])
+  })
+
+  it("ignores links in the action menu", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    const card = getCard("card-racing")
+    const menu = card.querySelector("ytd-menu-renderer")
+    menu?.insertAdjacentHTML("beforeend", '<a href="/@someoneelse">Report</a>')
+    const links = findAllChannelLinks(card).map((link) => link.href)
+    expect(links).toEqual(["https://www.youtube.com/@speedcrew"])
+  })
+
+  it("falls back to any channel link in lockup cards", () => {
+    loadPage(FIXTURES.liveUpcoming)
+    const links = findAllChannelLinks(getCard("card-lockup-live")).map((link) => link.href)
+    expect(links).toEqual(["https://www.youtube.com/@lapcounter"])
+  })
+})
+
+describe("getContentType", () => {
+  it("tells videos, live streams and premieres apart", () => {
+    loadPage(FIXTURES.liveUpcoming)
+    expect(getContentType(getCard("card-live"))).toBe("live")
+    expect(getContentType(getCard("card-upcoming"))).toBe("upcoming")
+    expect(getContentType(getCard("card-lockup-live"))).toBe("live")
+
+    loadPage(FIXTURES.subscriptionsGrid)
+    expect(getContentType(getCard("card-racing"))).toBe("video")
+  })
+
+  it("recognizes shorts in the grid shelf and the reel shelf", () => {
+    loadPage(FIXTURES.shortsShelf)
+    expect(getContentType(getCard("card-short"))).toBe("shorts")
+    expect(getContentType(getCard("reel-item"))).toBe("shorts")
+  })
+
+  it("detects again when YouTube changes the card in place", async () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    const observer = observeFeed()
+    const card = getCard("card-racing")
+    expect(getContentType(card)).toBe("video")
+
+    const overlay = card.querySelector("ytd-thumbnail-overlay-time-status-renderer")
+    overlay?.setAttribute("overlay-style", "LIVE")
+    // Mutation observers are called in a microtask
+    await Promise.resolve()
+    expect(getContentType(card)).toBe("live")
+    observer.disconnect()
+  })
+
+  it("detects again when YouTube reuses the card for another video", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    const card = getCard("card-racing")
+    expect(getContentType(card)).toBe("video")
+
+    card.querySelector("a#thumbnail")?.setAttribute("href", "/watch?v=racing00002")
+    expect(getCardVideoId(card)).toBe("racing00002")
+  })
+})
+
+describe("card contents", () => {
+  it("reads title, duration, age and watch progress", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    const racing = getCard("card-racing")
+    expect(getCardTitle(racing)).toBe("Lap record at Spa")
+    expect(getCardDuration(racing)).toBe(754)
+    expect(getCardAgeDays(racing)).toBe(3)
+    expect(getWatchProgress(racing)).toBe(0)
+
+    const games = getCard("card-games")
+    expect(getCardDuration(games)).toBe(3723)
+    expect(getCardAgeDays(games)).toBe(14)
+    expect(getWatchProgress(games)).toBe(100)
+  })
+
+  it("finds cards but not the continuation item", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    expect(queryAllCards().map((card) => card.id)).toEqual(["card-racing", "card-games"])
+  })
+})
+
+describe("getCardTags", () => {
+  it("combines channel tags with the video's own tags", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    const card = getCard("card-racing")
+    card.setAttribute(CHANNEL_URL_MARK, "https://www.youtube.com/@speedcrew")
+    state.channelTagMap = { "https://www.youtube.com/@speedcrew": ["racing"] }
+    state.videoTagMap = { racing00001: { tags: ["cars"], mode: "add" } }
+    expect(getCardTags(card)).toEqual(["racing", "cars"])
+  })
+
+  it("is null for cards nothing is known about", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    expect(getCardTags(getCard("card-games"))).toBeNull()
+  })
+
+  it("keeps cached tags until they are invalidated", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    const card = getCard("card-racing")
+    card.setAttribute(CHANNEL_URL_MARK, "https://www.youtube.com/@speedcrew")
+    expect(getCardTags(card)).toEqual([])
+
+    state.channelTagMap = { "https://www.youtube.com/@speedcrew": ["racing"] }
+    expect(getCardTags(card)).toEqual([])
+    invalidateCardTags()
+    expect(getCardTags(card)).toEqual(["racing"])
+  })
+})
@@ -0,0 +1,282 @@
+import { getChannelTags } from "../lib/channels"
+import {
+  type CardInfo,
+  getRuleVideoTags,
+  isVideoRule,
+  parseDuration,
+  parseUploadAge,
+} from "../lib/rules"
+import { applyVideoTags, getVideoId } from "../lib/videos"
+import { CHANNEL_URL_MARK, VIDEO_CARD_SELECTOR } from "./constants"
+import { findFirst, getSelectorGroup, queryFirst, recordLookup, selectorList } from "./selectors"
+import { state } from "./state"
+
+// =============================================================================
+// Channel Link Detection
+// =============================================================================
+
+export function isChannelUrl(href: string): boolean {
+  if (!href) return false
+  try {
+    const url = new URL(href, window.location.origin)
+    const path = url.pathname
+    return path.includes("/channel/") || path.startsWith("/@") || path.startsWith("/c/")
+  } catch {
+    return href.includes("/channel/") || href.includes("/@") || href.includes("/c/")
+  }
+}
+
+/**
+ * Every channel link in the card, the avatar link (most reliable) first. Links
+ * from all selectors are collected as aliases; the last selector matches any
+ * link and is only a fallback for when the others found nothing.
+ */
+export function findAllChannelLinks(card: Element): HTMLAnchorElement[] {
+  const foundLinks = new Map<string, HTMLAnchorElement>()
+  const { selectors } = getSelectorGroup("channelLink")
+  let answered: number | null = null
+
+  selectors.forEach((sel, index) => {
+    if (index === selectors.length - 1 && foundLinks.size > 0) return
+    for (const link of Array.from(card.querySelectorAll<HTMLAnchorElement>(sel))) {
+      if (!link.href || !isChannelUrl(link.href) || link.closest("ytd-menu-renderer")) continue
+      foundLinks.set(link.href, link)
+      answered ??= index
+    }
+  })
+
+  recordLookup("channelLink", answered)
+  return Array.from(foundLinks.values())
+}
+
+export function findChannelLink(card: Element): HTMLAnchorElement | null {
+  const links = findAllChannelLinks(card)
+  return links.length > 0 ? links[0] : null
+}
+
+// =============================================================================
+// Card Cache
+// =============================================================================
+
+// Results that are costly to work out again on every scan. A card's entry is
+// dropped when its children or the attributes YouTube updates in place change;
+// YouTube reusing the element for another video shows up as a different video link.
+type CardState = {
+  href: string | null
+  videoId: string | null
+  /** The card and every shadow root inside it. */
+  roots?: (Element | ShadowRoot)[]
+  channelLinks?: HTMLAnchorElement[]
+  channelName?: string
+  contentType?: ContentType
+  tags?: { version: number; value: string[] | null }
+}
+
+const cardStates = new WeakMap<Element, CardState>()
+
+// Bumped when tags, rules or tag assignments change, which outdates cached card tags
+let tagsVersion = 0
+
+export function getCardState(card: Element): CardState {
+  const href = card.querySelector<HTMLAnchorElement>(VIDEO_LINK_SELECTOR)?.href ?? null
+  let cached = cardStates.get(card)
+  if (!cached || cached.href !== href) {
+    cached = { href, videoId: href ? getVideoId(href) : null }
+    cardStates.set(card, cached)
+  }
+  return cached
+}
+
+export function forgetCard(card: Element): void {
+  cardStates.delete(card)
+}
+
+export function invalidateCardTags(): void {
+  tagsVersion += 1
+}
+
+// =============================================================================
+// Card Contents
+// =============================================================================
+
+type ContentType = "shorts" | "video" | "live" | "upcoming"
+
+/** The card and the shadow roots inside it, found once per card. */
+function getCardRoots(card: Element): (Element | ShadowRoot)[] {
+  const cached = getCardState(card)
+  if (!cached.roots) {
+    const roots: (Element | ShadowRoot)[] = [card]
+    const walk = (root: Element | ShadowRoot) => {
+      for (const child of Array.from(root.querySelectorAll("*"))) {
+        if (!child.shadowRoot) continue
+        roots.push(child.shadowRoot)
+        walk(child.shadowRoot)
+      }
+    }
+    walk(card)
+    cached.roots = roots
+  }
+  return cached.roots
+}
+
+/** Query selector within element and its descendant shadow roots. */
+function queryInCard(card: Element, selector: string): Element | null {
+  for (const root of getCardRoots(card)) {
+    const found = root.querySelector(selector)
+    if (found) return found
+  }
+  return null
+}
+
+/** All matches of a selector within element and its descendant shadow roots. */
+function queryAllInCard(card: Element, selector: string): Element[] {
+  const found: Element[] = []
+  for (const root of getCardRoots(card)) found.push(...Array.from(root.querySelectorAll(selector)))
+  return found
+}
+
+export function getContentType(card: Element): ContentType {
+  const cached = getCardState(card)
+  cached.contentType ??= detectContentType(card)
+  return cached.contentType
+}
+
+function detectContentType(card: Element): ContentType {
+  if (
+    queryInCard(card, 'a[href^="/shorts/"]') ||
+    queryInCard(card, "ytd-thumbnail-overlay-time-status-renderer[overlay-style=SHORTS]")
+  ) {
+    return "shorts"
+  }
+  if (
+    queryInCard(card, 'ytd-thumbnail-overlay-time-status-renderer[overlay-style="LIVE"]') ||
+    queryInCard(card, ".yt-badge-shape--thumbnail-live")
+  ) {
+    return "live"
+  }
+  if (queryInCard(card, 'ytd-thumbnail-overlay-time-status-renderer[overlay-style="UPCOMING"]')) {
+    return "upcoming"
+  }
+  return "video"
+}
+
+/** Percent of the video already watched, from the red resume-playback bar. */
+export function getWatchProgress(card: Element): number {
+  const progress = findFirst("watchProgress", (sel) => {
+    const bar = queryInCard(card, sel) as HTMLElement | null
+    const width = bar ? Number.parseFloat(bar.style.width) : Number.NaN
+    return Number.isFinite(width) ? width : null
+  })
+  return progress ?? 0
+}
+
+export function getCardDuration(card: Element): number | null {
+  return findFirst("duration", (sel) => {
+    const text = queryInCard(card, sel)?.textContent
+    return text ? parseDuration(text) : null
+  })
+}
+
+/** Days since upload, from the "… ago" entry of the metadata line. */
+export function getCardAgeDays(card: Element): number | null {
+  return findFirst("uploadAge", (sel) => {
+    for (const el of queryAllInCard(card, sel)) {
+      const days = parseUploadAge(el.textContent ?? "")
+      if (days !== null) return days
+    }
+    return null
+  })
+}
+
+export function getCardTitle(card: Element): string {
+  const title = findFirst("title", (sel) => {
+    const el = queryInCard(card, sel)
+    return el?.textContent?.trim() || el?.getAttribute("title") || null
+  })
+  return title ?? ""
+}
+
+export function getCardChannelName(card: Element): string {
+  const cached = getCardState(card)
+  cached.channelName ??= queryFirst(card, "cardChannelName")?.textContent?.trim() ?? ""
+  return cached.channelName
+}
+
+export function getCardInfo(card: Element): CardInfo {
+  return {
+    title: getCardTitle(card),
+    channelUrl: card.getAttribute(CHANNEL_URL_MARK),
+    channelName: getCardChannelName(card),
+    durationSeconds: getCardDuration(card),
+  }
+}
+
+const VIDEO_LINK_SELECTOR = selectorList("videoLink")
+
+export type CardVideo = {
+  videoId: string
+  videoTitle: string
+}
+
+export function getCardVideoId(card: Element): string | null {
+  return getCardState(card).videoId
+}
+
+export function getCardVideo(card: Element): CardVideo | null {
+  const videoId = getCardVideoId(card)
+  return videoId ? { videoId, videoTitle: getCardInfo(card).title } : null
+}
+
+/**
+ * The channel's tags combined with the video's own tags, plus tags from video
+ * rules. Null when neither the channel, the video nor any rule says anything
+ * about the card.
+ */
+export function getCardTags(card: Element): string[] | null {
+  const cached = getCardState(card)
+  if (cached.tags?.version !== tagsVersion) {
+    cached.tags = { version: tagsVersion, value: computeCardTags(card, cached.videoId) }
+  }
+  return cached.tags.value
+}
+
+function computeCardTags(card: Element, videoId: string | null): string[] | null {
+  const channelUrl = card.getAttribute(CHANNEL_URL_MARK)
+  const video = videoId ? state.videoTagMap[videoId] : undefined
+  const channelTags = channelUrl
+    ? getChannelTags(state.channelTagMap, state.channelAliases, channelUrl)
+    : []
+  const ruleTags = state.tagRules.some((rule) => rule.enabled && isVideoRule(rule))
+    ? getRuleVideoTags(state.tagRules, getCardInfo(card))
+    : []
+  if (!channelUrl && !video && ruleTags.length === 0) return null
+  return [...new Set([...applyVideoTags(channelTags, video), ...ruleTags])]
+}
+
+// =============================================================================
+// Card Queries
+// =============================================================================
+
+export function queryAllCards(selector = VIDEO_CARD_SELECTOR): Element[] {
+  const roots: (Document | ShadowRoot)[] = [document]
+  const app = document.querySelector("ytd-app")
+  if (app?.shadowRoot) roots.push(app.shadowRoot)
+  const found: Element[] = []
+  for (const root of roots) {
+    root.querySelectorAll(selector).forEach((el) => {
+      found.push(el)
+    })
+  }
+  return [...new Set(found)]
+}
+
+/** The visible page; YouTube keeps previously visited pages in the DOM, hidden. */
+export function getActivePage(): Element | null {
+  return document.querySelector("ytd-page-manager > :not([hidden])")
+}
+
+/** Cards on the visible page matching `selector`, e.g. one carrying a mark. */
+export function queryPageCards(selector: string): Element[] {
+  const page = getActivePage()
+  return queryAllCards(selector).filter((card) => !page || page.contains(card))
+}
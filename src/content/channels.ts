@@ -0,0 +1,81 @@
+import {
+  addChannelAliases,
+  type ChannelSighting,
+  canonicalChannelUrl,
+  getChannelId,
+  resolveChannelKey,
+} from "../lib/channels"
+import { isChannelUrl } from "./cards"
+import { getChannelPageUrl } from "./page"
+import { findFirst, selectorList } from "./selectors"
+import { state } from "./state"
+
+const reportedAliases = new Set<string>()
+
+/**
+ * Tell the app that all `urls` point at the same channel. Single URLs are only
+ * worth reporting in `/channel/UC…` form, which pins the case-sensitive id.
+ */
+export function reportChannelAliases(urls: string[]): void {
+  const forms = [...new Set(urls.map(canonicalChannelUrl))].sort()
+  if (forms.length < 2 && !forms.some((url) => getChannelId(url))) return
+
+  const signature = forms.join(" ")
+  if (reportedAliases.has(signature)) return
+  reportedAliases.add(signature)
+  if (!addChannelAliases(state.channelAliases, forms)) return
+
+  window.dispatchEvent(new CustomEvent("ytx-channel-aliases", { detail: { urls: forms } }))
+}
+
+// Known channels are reported again at most this often to refresh "last seen"
+const SEEN_REFRESH_MS = 6 * 60 * 60 * 1000
+
+export const reportedChannels = new Set<string>()
+let pendingChannels: ChannelSighting[] = []
+
+/** Queue a channel for the app's channel records unless nothing new is known. */
+export function reportChannelSeen(sighting: ChannelSighting): void {
+  const key = resolveChannelKey(sighting.url, state.channelAliases)
+  if (reportedChannels.has(key)) return
+  const known = state.channelMeta[key]
+  const fresh = Date.now() - (known?.lastSeen ?? 0) < SEEN_REFRESH_MS
+  if (known?.name === sighting.name && (known.avatar || !sighting.avatar) && fresh) return
+  reportedChannels.add(key)
+  pendingChannels.push(sighting)
+}
+
+/** Avatar image URL inside `root`; lazy images have no usable src until loaded. */
+export function findAvatarUrl(root: Element | Document): string | undefined {
+  const avatar = findFirst("avatar", (sel) => {
+    const src = root.querySelector<HTMLImageElement>(sel)?.src
+    return src?.startsWith("http") ? src : null
+  })
+  return avatar ?? undefined
+}
+
+export function flushSeenChannels(): void {
+  if (pendingChannels.length === 0) return
+  const channels = pendingChannels
+  pendingChannels = []
+  window.dispatchEvent(new CustomEvent("ytx-channels-seen", { detail: { channels } }))
+}
+
+export function findChannelPageAliases(channelName: string): string[] {
+  const urls = [getChannelPageUrl()]
+
+  // YouTube can leave <head> metadata from the previous page after SPA
+  // navigation, so only trust the canonical link when its title matches
+  const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]')
+  const title = document.querySelector('meta[property="og:title"]')?.getAttribute("content")
+  if (canonical?.href && isChannelUrl(canonical.href) && title?.trim() === channelName) {
+    urls.push(canonical.href)
+  }
+
+  const handle = Array.from(document.querySelectorAll(selectorList("channelPageHandle")))
+    .map((el) => el.textContent?.trim() ?? "")
+    .find((text) => /^@\S+$/.test(text))
+  if (handle) urls.push(`${location.origin}/${handle}`)
+
+  return urls
+}
@@ -0,0 +1,26 @@
+import { selectorList } from "./selectors"
+
+export const ROOT_ID = "ytx-root"
+export const CARD_MARK = "data-ytx-tag-btn"
+export const CARD_BTN_MARK = "data-ytx-tag-button"
+export const MENU_ITEM_MARK = "data-ytx-menu-item"
+export const CHANNEL_URL_MARK = "data-ytx-channel-url"
+export const VIDEO_ID_MARK = "data-ytx-video-id"
+export const CHANNEL_HEADER_MARK = "data-ytx-channel-header-btn"
+export const FILTER_WARNING_ID = "ytx-filter-warning"
+export const HIDDEN_MARK = "data-ytx-hidden"
+export const HIDE_STYLE_ID = "ytx-hide-style"
+export const GROUP_HEADER_MARK = "data-ytx-group"
+export const NEW_MARK = "data-ytx-new"
+export const TITLE_HIDDEN_MARK = "data-ytx-title-hidden"
+
+export const VIDEO_CARD_SELECTOR = selectorList("videoCard")
+
+export const CHANNEL_LIST_ITEM_SELECTOR = "ytd-channel-renderer"
+
+// Shorts shelf items aren't filtered by surface, but the hide rule still applies
+const SHORTS_ITEM_SELECTOR = selectorList("shortsItem")
+
+export const ANY_CARD_SELECTOR = `${VIDEO_CARD_SELECTOR}, ${SHORTS_ITEM_SELECTOR}`
+
+export const GRID_CONTENTS_SELECTOR = "ytd-rich-grid-renderer > #contents"
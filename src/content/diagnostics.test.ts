@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { describeProblems } from "../lib/diagnostics"
+import { FIXTURES, loadPage } from "../test/dom"
+import { invalidateCardTags } from "./cards"
+import { buildDiagnosticsReport } from "./diagnostics"
+import { scanAndInject } from "./scan"
+import { resetSelectorHits } from "./selectors"
+import { resetState } from "./state"
+
+beforeEach(() => {
+  resetState()
+  invalidateCardTags()
+  resetSelectorHits()
+})
+
+const hitsOf = (groupId: string) =>
+  buildDiagnosticsReport()
+    .groups.find((group) => group.id === groupId)
+    ?.selectors.map(({ hits }) => hits)
+
+describe("buildDiagnosticsReport", () => {
+  it("finds nothing wrong with the current markup", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    scanAndInject()
+
+    const report = buildDiagnosticsReport()
+    expect(report).toMatchObject({ cards: 2, cardsWithChannel: 2, cardsWithVideo: 2 })
+    expect(describeProblems(report)).toEqual([])
+    expect(hitsOf("channelLink")?.[0]).toBe(2)
+    expect(hitsOf("thumbnail")?.[0]).toBe(2)
+    expect(hitsOf("continuation")).toEqual([1, 0])
+  })
+
+  it("flags cards whose channel links moved", () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    for (const link of Array.from(document.querySelectorAll("a[href^='/@'], a[href^='/c']"))) {
+      link.removeAttribute("href")
+    }
+    scanAndInject()
+
+    expect(describeProblems(buildDiagnosticsReport())).toEqual([
+      "2 of 2 cards had no channel link",
+      "No selector for channel links in cards matched in 2 lookup(s)",
+    ])
+  })
+
+  it("flags a channel page without the header button", () => {
+    loadPage(
+      FIXTURES.channelHeaderC4.replace(
+        /<ytd-c4-tabbed-header-renderer[\s\S]*<\/ytd-c4-tabbed-header-renderer>/,
+        ""
+      ),
+      "/@speedcrew"
+    )
+    scanAndInject()
+
+    expect(describeProblems(buildDiagnosticsReport())).toEqual([
+      "Header button not placed",
+      "No selector for channel page names matched in 1 lookup(s)",
+    ])
+  })
+})
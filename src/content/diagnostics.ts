@@ -0,0 +1,64 @@
+import type { DiagnosticsReport, SelectorGroupReport } from "../lib/diagnostics"
+import { getSurface } from "../lib/surfaces"
+import { getCardVideoId, getContentType, queryAllCards, queryPageCards } from "./cards"
+import {
+  CARD_BTN_MARK,
+  CHANNEL_HEADER_MARK,
+  CHANNEL_URL_MARK,
+  MENU_ITEM_MARK,
+  VIDEO_CARD_SELECTOR,
+} from "./constants"
+import { getActiveSurfaceFilter, isChannelPage } from "./page"
+import { getSelectorGroup, getSelectorHits, SELECTOR_GROUP_IDS, selectorList } from "./selectors"
+
+function reportGroups(): SelectorGroupReport[] {
+  return SELECTOR_GROUP_IDS.map((id) => {
+    const { label, kind, optional, selectors } = getSelectorGroup(id)
+    const counted = getSelectorHits(id)
+    return {
+      id,
+      label,
+      kind,
+      optional: optional === true,
+      selectors: selectors.map((selector, index) => ({
+        selector,
+        hits: kind === "page" ? queryAllCards(selector).length : counted.hits[index],
+      })),
+      misses: counted.misses,
+    }
+  })
+}
+
+/**
+ * Check the visible page for everything the content script relies on. Shorts
+ * in the grid carry no channel link, so only regular video cards are counted.
+ */
+export function buildDiagnosticsReport(): DiagnosticsReport {
+  const cards = queryPageCards(VIDEO_CARD_SELECTOR).filter(
+    (card) => getContentType(card) !== "shorts"
+  )
+  const hasMark = (mark: string) => document.querySelector(`[${mark}]`) !== null
+  // YouTube creates the menu popup the first time a menu opens
+  const menuOpened = queryAllCards(selectorList("menuPopup")).length > 0
+  return {
+    url: location.href,
+    surface: getSurface(location.pathname) !== null,
+    cards: cards.length,
+    cardsWithChannel: cards.filter((card) => card.hasAttribute(CHANNEL_URL_MARK)).length,
+    cardsWithVideo: cards.filter((card) => getCardVideoId(card) !== null).length,
+    buttonsOffThumbnail: cards.filter(
+      (card) => card.querySelector(`button[${CARD_BTN_MARK}]`)?.parentElement === card
+    ).length,
+    headerButton: isChannelPage() ? hasMark(CHANNEL_HEADER_MARK) : null,
+    menuItem: menuOpened && getActiveSurfaceFilter() ? hasMark(MENU_ITEM_MARK) : null,
+    groups: reportGroups(),
+  }
+}
+
+/** Answer the panel's diagnostics requests with a report on the current page. */
+export function attachDiagnosticsListener(): void {
+  window.addEventListener("ytx-diagnostics", () => {
+    const report = buildDiagnosticsReport()
+    window.dispatchEvent(new CustomEvent("ytx-diagnostics-result", { detail: { report } }))
+  })
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import type { SurfaceFilter } from "../lib/surfaces"
+import { FIXTURES, getCard, listen, loadPage, removeListeners } from "../test/dom"
+import { markCardChannel } from "./buttons"
+import { invalidateCardTags, queryAllCards } from "./cards"
+import { ANY_CARD_SELECTOR, FILTER_WARNING_ID, HIDDEN_MARK, TITLE_HIDDEN_MARK } from "./constants"
+import { applyFilter } from "./filter"
+import { resetState, state } from "./state"
+
+function setSubscriptionsFilter(patch: Partial<SurfaceFilter>): void {
+  const { subscriptions } = state.surfaceFilters
+  state.surfaceFilters = { ...state.surfaceFilters, subscriptions: { ...subscriptions, ...patch } }
+}
+
+/** Load the page and mark every card's channel, as a scan would. */
+function loadFeed(html: string, path?: string): void {
+  loadPage(html, path)
+  for (const card of queryAllCards(ANY_CARD_SELECTOR)) markCardChannel(card)
+}
+
+const isShown = (id: string) => getCard(id).style.display !== "none"
+
+beforeEach(() => {
+  resetState()
+  state.tagList = [
+    { id: "racing", name: "Racing", color: "#f00" },
+    { id: "games", name: "Games", color: "#0f0" },
+    { id: "blocked", name: "Blocked", color: "#000", hide: true },
+  ]
+  state.channelTagMap = {
+    "https://www.youtube.com/@speedcrew": ["racing"],
+    "https://www.youtube.com/channel/UCgames00000000000000000": ["games"],
+  }
+  invalidateCardTags()
+})
+
+afterEach(removeListeners)
+
+describe("applyFilter", () => {
+  it("shows only cards from channels with an included tag", () => {
+    loadFeed(FIXTURES.subscriptionsGrid)
+    setSubscriptionsFilter({ filter: { mode: "any", include: ["racing"], exclude: [] } })
+    applyFilter()
+    expect(isShown("card-racing")).toBe(true)
+    expect(isShown("card-games")).toBe(false)
+  })
+
+  it("filters by content type and hides the shorts shelf", () => {
+    loadFeed(FIXTURES.liveUpcoming)
+    setSubscriptionsFilter({
+      contentTypes: { videos: true, live: false, upcoming: true, shorts: true },
+    })
+    applyFilter()
+    expect(isShown("card-live")).toBe(false)
+    expect(isShown("card-lockup-live")).toBe(false)
+    expect(isShown("card-upcoming")).toBe(true)
+
+    loadFeed(FIXTURES.shortsShelf)
+    setSubscriptionsFilter({
+      contentTypes: { videos: true, live: true, upcoming: true, shorts: false },
+    })
+    applyFilter()
+    const shelf = document.querySelector<HTMLElement>("ytd-rich-shelf-renderer")
+    expect(shelf?.style.display).toBe("none")
+  })
+
+  it("hides watched videos in unwatched mode", () => {
+    loadFeed(FIXTURES.subscriptionsGrid)
+    setSubscriptionsFilter({ watched: { mode: "unwatched", threshold: 100 } })
+    applyFilter()
+    expect(isShown("card-racing")).toBe(true)
+    expect(isShown("card-games")).toBe(false)
+  })
+
+  it("marks cards with a hide tag and reports the count", () => {
+    loadFeed(FIXTURES.subscriptionsGrid)
+    const counts = listen("ytx-hidden-count")
+    state.channelTagMap = {
+      ...state.channelTagMap,
+      "https://www.youtube.com/@speedcrew": ["blocked"],
+    }
+    invalidateCardTags()
+
+    applyFilter()
+    expect(getCard("card-racing").getAttribute(HIDDEN_MARK)).toBe("hidden")
+    expect(getCard("card-games").hasAttribute(HIDDEN_MARK)).toBe(false)
+    expect(counts.mock.lastCall?.[0].detail).toEqual({ count: 1 })
+
+    state.revealHidden = true
+    applyFilter()
+    expect(getCard("card-racing").getAttribute(HIDDEN_MARK)).toBe("revealed")
+  })
+
+  it("hides shorts shelf items once their channel is known from elsewhere", () => {
+    state.channelTagMap = { "https://www.youtube.com/@speedcrew": ["blocked"] }
+    invalidateCardTags()
+    const counts = listen("ytx-hidden-count")
+
+    loadFeed(FIXTURES.shortsShelf)
+    applyFilter()
+    expect(getCard("reel-item").hasAttribute(HIDDEN_MARK)).toBe(false)
+
+    // The channel's own shorts tab lists the same shorts
+    loadFeed(FIXTURES.shortsShelf, "/@speedcrew/shorts")
+    loadFeed(FIXTURES.shortsShelf)
+    applyFilter()
+    expect(getCard("reel-item").getAttribute(HIDDEN_MARK)).toBe("hidden")
+    expect(getCard("card-short").getAttribute(HIDDEN_MARK)).toBe("hidden")
+    expect(counts.mock.lastCall?.[0].detail).toEqual({ count: 2 })
+  })
+
+  it("hides cards whose title matches an exclude rule", () => {
+    loadFeed(FIXTURES.subscriptionsGrid)
+    const counts = listen("ytx-title-hidden")
+    setSubscriptionsFilter({
+      titleRules: [{ id: "react", text: "reaction", regex: false, mode: "exclude", enabled: true }],
+    })
+    applyFilter()
+    expect(getCard("card-games").getAttribute(TITLE_HIDDEN_MARK)).toBe("react")
+    expect(isShown("card-games")).toBe(false)
+    expect(isShown("card-racing")).toBe(true)
+    expect(counts.mock.lastCall?.[0].detail).toEqual({ counts: { react: 1 } })
+  })
+
+  it("leaves cards without a title to the other filters when include rules exist", () => {
+    loadFeed(FIXTURES.subscriptionsGrid)
+    getCard("card-games").querySelector("#video-title")?.remove()
+    setSubscriptionsFilter({
+      titleRules: [{ id: "spa", text: "spa", regex: false, mode: "include", enabled: true }],
+    })
+    applyFilter()
+    expect(isShown("card-racing")).toBe(true)
+    expect(getCard("card-games").hasAttribute(TITLE_HIDDEN_MARK)).toBe(false)
+    expect(isShown("card-games")).toBe(true)
+  })
+
+  it("warns and stops infinite scroll when every content type is off", () => {
+    loadFeed(FIXTURES.subscriptionsGrid)
+    setSubscriptionsFilter({
+      contentTypes: { videos: false, live: false, upcoming: false, shorts: false },
+    })
+    applyFilter()
+    const warning = document.getElementById(FILTER_WARNING_ID)
+    expect(warning?.parentElement?.tagName).toBe("YTD-RICH-GRID-RENDERER")
+    expect(warning?.style.display).toBe("flex")
+    const continuation = document.querySelector<HTMLElement>("ytd-continuation-item-renderer")
+    expect(continuation?.style.display).toBe("none")
+  })
+
+  it("leaves disabled surfaces unfiltered", () => {
+    loadFeed(FIXTURES.subscriptionsGrid)
+    setSubscriptionsFilter({
+      enabled: false,
+      filter: { mode: "any", include: ["racing"], exclude: [] },
+    })
+    applyFilter()
+    expect(isShown("card-games")).toBe(true)
+  })
+})
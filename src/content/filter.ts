@@ -0,0 +1,221 @@
+import { isTagFilterActive, matchesTagExpression, type TagFilter } from "../lib/filters"
+import { DEFAULT_CONTENT_TYPES, getSurface } from "../lib/surfaces"
+import { getHideTagIds } from "../lib/tags"
+import { getTitleVerdict } from "../lib/titles"
+import type { ContentTypeFilters, DurationFilter, WatchedFilter } from "../lib/types"
+import { arrangeFeeds } from "./arrange"
+import { TAG_BUTTON_COLOR_HOVER } from "./buttons"
+import {
+  getActivePage,
+  getCardAgeDays,
+  getCardDuration,
+  getCardTags,
+  getCardTitle,
+  getContentType,
+  getWatchProgress,
+  queryAllCards,
+  queryPageCards,
+} from "./cards"
+import {
+  ANY_CARD_SELECTOR,
+  CARD_BTN_MARK,
+  FILTER_WARNING_ID,
+  HIDDEN_MARK,
+  HIDE_STYLE_ID,
+  NEW_MARK,
+  TITLE_HIDDEN_MARK,
+  VIDEO_CARD_SELECTOR,
+} from "./constants"
+import { getActiveSurfaceFilter } from "./page"
+import { applyNewHighlights } from "./seen"
+import { selectorList } from "./selectors"
+import { state } from "./state"
+
+let lastHiddenCount = -1
+let lastTitleCounts = ""
+
+function matchesContentTypeFilter(card: Element, contentTypes: ContentTypeFilters): boolean {
+  const type = getContentType(card)
+  const filterKey = type === "video" ? "videos" : type
+  return contentTypes[filterKey] === true
+}
+
+function matchesWatchedFilter(card: Element, watched: WatchedFilter): boolean {
+  if (watched.mode === "all") return true
+  const progress = getWatchProgress(card)
+  if (watched.mode === "unwatched") return progress === 0
+  return progress < watched.threshold
+}
+
+// Cards without a duration badge (live, upcoming) or a parsable upload age
+// are never hidden by these filters
+function matchesDurationFilter(card: Element, duration: DurationFilter): boolean {
+  if (duration.min === null && duration.max === null) return true
+  const seconds = getCardDuration(card)
+  if (seconds === null) return true
+  if (duration.min !== null && seconds < duration.min * 60) return false
+  return duration.max === null || seconds <= duration.max * 60
+}
+
+function matchesAgeFilter(card: Element, maxAgeDays: number | null): boolean {
+  if (maxAgeDays === null) return true
+  const days = getCardAgeDays(card)
+  return days === null || days <= maxAgeDays
+}
+
+function matchesTagFilter(card: Element, filter: TagFilter): boolean {
+  if (!isTagFilterActive(filter)) return true
+  const assigned = getCardTags(card)
+  // Unknown channels can only satisfy an exclude-only expression
+  if (!assigned) return filter.include.length === 0
+  return matchesTagExpression(assigned, filter, state.tagList)
+}
+
+function findWarningContainer(): Element | null {
+  const page = getActivePage() ?? document
+  return (
+    page.querySelector("ytd-rich-grid-renderer") ||
+    page.querySelector("#related") ||
+    page.querySelector("#contents") ||
+    page.querySelector("#primary")
+  )
+}
+
+function ensureHideStyle(): void {
+  if (document.getElementById(HIDE_STYLE_ID)) return
+  const style = document.createElement("style")
+  style.id = HIDE_STYLE_ID
+  style.textContent = `[${HIDDEN_MARK}="hidden"]{display:none !important}[${HIDDEN_MARK}="revealed"]{opacity:0.35}[${NEW_MARK}] :is(ytd-thumbnail,yt-thumbnail-view-model){outline:3px solid ${TAG_BUTTON_COLOR_HOVER};outline-offset:2px;border-radius:12px}`
+  document.head.appendChild(style)
+}
+
+function isCardHidden(card: Element, hideTagIds: string[]): boolean {
+  if (hideTagIds.length === 0) return false
+  return (getCardTags(card) ?? []).some((id) => hideTagIds.includes(id))
+}
+
+/**
+ * Hide cards from channels with a blocklist tag, on every page. Works through an
+ * attribute rather than inline display so it stacks with the surface filters.
+ */
+function applyHideRule(cards: Element[]): void {
+  ensureHideStyle()
+  const hideTagIds = getHideTagIds(state.tagList)
+
+  for (const card of cards) {
+    if (!isCardHidden(card, hideTagIds)) {
+      card.removeAttribute(HIDDEN_MARK)
+      continue
+    }
+    card.setAttribute(HIDDEN_MARK, state.revealHidden ? "revealed" : "hidden")
+  }
+
+  // A shorts lockup is marked along with the grid item around it; count it once
+  const count = queryPageCards(`[${HIDDEN_MARK}]`).filter(
+    (card) => !card.parentElement?.closest(`[${HIDDEN_MARK}]`)
+  ).length
+  if (count !== lastHiddenCount) {
+    lastHiddenCount = count
+    window.dispatchEvent(new CustomEvent("ytx-hidden-count", { detail: { count } }))
+  }
+}
+
+/** Tell the panel how many cards on the page each title rule hid, when that changes. */
+function reportTitleCounts(counts: Record<string, number>): void {
+  const signature = JSON.stringify(counts)
+  if (signature === lastTitleCounts) return
+  lastTitleCounts = signature
+  window.dispatchEvent(new CustomEvent("ytx-title-hidden", { detail: { counts } }))
+}
+
+/**
+ * Filter `cards` (every card when omitted), then update what depends on the
+ * whole page: hidden counts, the empty-filter warning and the arrangement.
+ */
+export function applyFilter(cards = queryAllCards(ANY_CARD_SELECTOR)): void {
+  const videoCards = cards.filter((card) => card.matches(VIDEO_CARD_SELECTOR))
+  applyHideRule(cards)
+  applyNewHighlights(videoCards)
+  if (!getSurface(location.pathname)) {
+    reportTitleCounts({})
+    arrangeFeeds("feed")
+    return
+  }
+
+  // Disabled surfaces show everything, so reset anything hidden earlier
+  const surfaceFilter = getActiveSurfaceFilter()
+  const tagFilter = surfaceFilter?.filter
+  const contentTypes = surfaceFilter?.contentTypes ?? DEFAULT_CONTENT_TYPES
+
+  const allContentDisabled =
+    !contentTypes.shorts && !contentTypes.videos && !contentTypes.live && !contentTypes.upcoming
+
+  // Show/hide warning message for empty filters
+  let warning = document.getElementById(FILTER_WARNING_ID)
+  if (allContentDisabled) {
+    if (!warning) {
+      warning = document.createElement("div")
+      warning.id = FILTER_WARNING_ID
+      warning.style.cssText =
+        "padding:40px;text-align:center;font-size:16px;color:#aaa;min-height:50vh;display:flex;align-items:center;justify-content:center;"
+      warning.textContent =
+        "All content types are hidden. Enable at least one content type in the Tags panel to see videos."
+    }
+    // The warning follows SPA navigation into the current page's feed
+    const container = findWarningContainer()
+    if (container && !container.contains(warning)) {
+      container.prepend(warning)
+    }
+    warning.style.display = "flex"
+  } else if (warning) {
+    warning.style.display = "none"
+  }
+
+  // Hide/show pagination to prevent infinite scroll when all content is hidden
+  const continuationElements = document.querySelectorAll(selectorList("continuation"))
+  continuationElements.forEach((el) => {
+    ;(el as HTMLElement).style.display = allContentDisabled ? "none" : ""
+  })
+
+  // Apply filters to video cards
+  videoCards.forEach((card) => {
+    const verdict = surfaceFilter?.titleRules.length
+      ? getTitleVerdict(surfaceFilter.titleRules, getCardTitle(card))
+      : null
+    if (verdict) card.setAttribute(TITLE_HIDDEN_MARK, verdict)
+    else card.removeAttribute(TITLE_HIDDEN_MARK)
+    const show =
+      !surfaceFilter ||
+      (verdict === null &&
+        matchesTagFilter(card, surfaceFilter.filter) &&
+        matchesContentTypeFilter(card, contentTypes) &&
+        matchesWatchedFilter(card, surfaceFilter.watched) &&
+        matchesDurationFilter(card, surfaceFilter.duration) &&
+        matchesAgeFilter(card, surfaceFilter.maxAgeDays))
+    ;(card as HTMLElement).style.display = show ? "" : "none"
+  })
+  const titleCounts: Record<string, number> = {}
+  for (const card of queryPageCards(`[${TITLE_HIDDEN_MARK}]`)) {
+    const verdict = card.getAttribute(TITLE_HIDDEN_MARK) ?? ""
+    titleCounts[verdict] = (titleCounts[verdict] ?? 0) + 1
+  }
+  reportTitleCounts(titleCounts)
+  arrangeFeeds(surfaceFilter?.arrange ?? "feed")
+
+  // Hide shorts section wrapper when shorts are filtered out
+  const shortsShelves = document.querySelectorAll(selectorList("shortsShelf"))
+  shortsShelves.forEach((shelf) => {
+    const hasShortsContent = shelf.querySelector('a[href^="/shorts/"]')
+    if (hasShortsContent) {
+      ;(shelf as HTMLElement).style.display = contentTypes.shorts ? "" : "none"
+    }
+  })
+
+  // Hide tag buttons when tag filters are active to prevent accidental untagging,
+  // and on surfaces that aren't filtered at all
+  const tagButtons = document.querySelectorAll(`button[${CARD_BTN_MARK}]`)
+  const hideTagButtons = !tagFilter || isTagFilterActive(tagFilter)
+  tagButtons.forEach((btn) => {
+    ;(btn as HTMLElement).style.display = hideTagButtons ? "none" : ""
+  })
+}
@@ -0,0 +1,69 @@
+import { dispatchAssign } from "./buttons"
+import { findChannelLink, getCardVideo } from "./cards"
+import { MENU_ITEM_MARK, VIDEO_CARD_SELECTOR } from "./constants"
+import { selectorList } from "./selectors"
+
+let lastMenuCard: Element | null = null
+let hoveredCard: Element | null = null
+
+export function attachMenuTracking(): void {
+  document.addEventListener("click", (event) => {
+    const target = event.target as Element | null
+    if (!target) return
+    const menuRenderer = target.closest("ytd-menu-renderer")
+    if (!menuRenderer) return
+    const card = menuRenderer.closest(VIDEO_CARD_SELECTOR)
+    if (card) {
+      lastMenuCard = card
+    }
+  })
+}
+
+/** Open the assign popover for the card under the mouse, for the tagging hotkey. */
+export function attachHoverTagging(): void {
+  document.addEventListener("mouseover", (event) => {
+    const target = event.target as Element | null
+    hoveredCard = target?.closest(VIDEO_CARD_SELECTOR) ?? null
+  })
+  window.addEventListener("ytx-tag-hovered", () => {
+    if (!hoveredCard?.isConnected) return
+    const link = findChannelLink(hoveredCard)
+    if (!link) return
+    const channelName = link.textContent?.trim() || "Channel"
+    const rect = hoveredCard.getBoundingClientRect()
+    const x = rect.left + rect.width / 2
+    const y = rect.top + Math.min(rect.height / 2, 120)
+    dispatchAssign(link.href, channelName, x, y, getCardVideo(hoveredCard))
+  })
+}
+
+export function injectMenuItem(): void {
+  const listboxes = document.querySelectorAll(selectorList("menuList"))
+  listboxes.forEach((listbox) => {
+    if (listbox.querySelector(`[${MENU_ITEM_MARK}]`)) return
+
+    const item = document.createElement("tp-yt-paper-item")
+    item.setAttribute(MENU_ITEM_MARK, "1")
+    item.setAttribute("role", "menuitem")
+    item.className = "style-scope ytd-menu-popup-renderer"
+    item.style.cursor = "pointer"
+
+    const label = document.createElement("yt-formatted-string")
+    label.className = "style-scope ytd-menu-popup-renderer"
+    label.textContent = "Add to tag"
+
+    item.appendChild(label)
+    item.addEventListener("click", (event) => {
+      event.stopPropagation()
+      event.preventDefault()
+      if (!lastMenuCard) return
+      const link = findChannelLink(lastMenuCard)
+      if (!link) return
+      const channelName = link.textContent?.trim() || "Channel"
+      const video = getCardVideo(lastMenuCard)
+      dispatchAssign(link.href, channelName, event.clientX, event.clientY, video)
+    })
+
+    listbox.appendChild(item)
+  })
+}
@@ -0,0 +1,30 @@
+import { getSurface, type SurfaceFilter } from "../lib/surfaces"
+import { state } from "./state"
+
+/** Filter settings for the current page, or null when it isn't filtered. */
+export function getActiveSurfaceFilter(): SurfaceFilter | null {
+  const surface = getSurface(location.pathname)
+  if (!surface || !state.surfaceFilters[surface].enabled) return null
+  return state.surfaceFilters[surface]
+}
+
+export function isChannelPage(): boolean {
+  return (
+    location.pathname.startsWith("/@") ||
+    location.pathname.startsWith("/channel/") ||
+    location.pathname.startsWith("/c/")
+  )
+}
+
+/** The subscriptions list at /feed/channels. */
+export function isChannelListPage(): boolean {
+  return location.pathname === "/feed/channels"
+}
+
+export function getChannelPageUrl(): string {
+  const match = location.pathname.match(/^(\/@[^/]+|\/channel\/[^/]+|\/c\/[^/]+)/)
+  if (match) {
+    return location.origin + match[1]
+  }
+  return location.href
+}
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { FIXTURES, getCard, loadPage } from "../test/dom"
+import { invalidateCardTags } from "./cards"
+import { applyFilter } from "./filter"
+import { observeFeed } from "./scan"
+import { resetState } from "./state"
+
+vi.mock("./filter", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./filter")>()
+  return { ...actual, applyFilter: vi.fn(actual.applyFilter) }
+})
+
+const nextFrame = () => new Promise((resolve) => requestAnimationFrame(resolve))
+
+let observer: MutationObserver | undefined
+
+beforeEach(() => {
+  resetState()
+  invalidateCardTags()
+})
+
+afterEach(() => {
+  observer?.disconnect()
+  vi.mocked(applyFilter).mockClear()
+})
+
+describe("observeFeed", () => {
+  it("filters again only when cards or the feed change", async () => {
+    loadPage(FIXTURES.subscriptionsGrid)
+    observer = observeFeed()
+    vi.mocked(applyFilter).mockClear()
+
+    const tooltip = document.createElement("div")
+    tooltip.textContent = "Tooltip"
+    document.body.appendChild(tooltip)
+    await nextFrame()
+    expect(applyFilter).not.toHaveBeenCalled()
+
+    const card = getCard("card-racing").cloneNode(true) as HTMLElement
+    card.id = "card-copy"
+    getCard("card-racing").after(card)
+    await nextFrame()
+    expect(applyFilter).toHaveBeenCalledWith([card])
+  })
+})
@@ -0,0 +1,167 @@
+import {
+  addTagButtonToCard,
+  addTagButtonToChannelHeader,
+  markCardChannel,
+  scanChannelList,
+} from "./buttons"
+import { forgetCard, queryAllCards } from "./cards"
+import { flushSeenChannels } from "./channels"
+import {
+  ANY_CARD_SELECTOR,
+  CARD_BTN_MARK,
+  CHANNEL_HEADER_MARK,
+  CHANNEL_LIST_ITEM_SELECTOR,
+  FILTER_WARNING_ID,
+  GRID_CONTENTS_SELECTOR,
+  GROUP_HEADER_MARK,
+  MENU_ITEM_MARK,
+  ROOT_ID,
+  VIDEO_CARD_SELECTOR,
+} from "./constants"
+import { applyFilter } from "./filter"
+import { injectMenuItem } from "./menu"
+import { getActiveSurfaceFilter, isChannelListPage, isChannelPage } from "./page"
+import { scheduleSeenVideosSave, trackNewVideos } from "./seen"
+import { selectorList } from "./selectors"
+
+/** Process `cards` (every card when omitted) and refresh page-wide state. */
+export function scanAndInject(cards = queryAllCards(ANY_CARD_SELECTOR)): void {
+  if (isChannelPage()) {
+    addTagButtonToChannelHeader()
+  }
+
+  const surfaceFilter = getActiveSurfaceFilter()
+  const videoCards: Element[] = []
+  for (const card of cards) {
+    const isVideoCard = card.matches(VIDEO_CARD_SELECTOR)
+    if (isVideoCard) videoCards.push(card)
+    // Shorts shelf items only need their channel for the hide rule
+    if (surfaceFilter && isVideoCard) addTagButtonToCard(card)
+    else markCardChannel(card)
+  }
+
+  if (isChannelListPage()) scanChannelList()
+  trackNewVideos(videoCards)
+
+  if (surfaceFilter) injectMenuItem()
+  applyFilter(cards)
+  flushSeenChannels()
+  scheduleSeenVideosSave()
+}
+
+const pendingCards = new Set<Element>()
+let scanScheduled = false
+
+/** Parts of the page besides cards that a scan fills in: channel headers, channel lists and menus. */
+const PAGE_PART_SELECTOR = [
+  "#page-header",
+  "#channel-header",
+  CHANNEL_LIST_ITEM_SELECTOR,
+  selectorList("menuList"),
+].join(", ")
+
+function containsMatch(node: Node, selector: string): boolean {
+  return node instanceof Element && (node.matches(selector) || !!node.querySelector(selector))
+}
+
+/** Nodes this script adds to the page, whose insertion needs no rescan. */
+function isOwnNode(node: Node): boolean {
+  if (!(node instanceof Element)) return false
+  return (
+    node.id === ROOT_ID ||
+    node.id === FILTER_WARNING_ID ||
+    [CARD_BTN_MARK, CHANNEL_HEADER_MARK, MENU_ITEM_MARK, GROUP_HEADER_MARK].some((mark) =>
+      node.hasAttribute(mark)
+    )
+  )
+}
+
+/**
+ * Attributes YouTube flips in place when a card's video goes live or its
+ * progress moves, without touching the card's children.
+ */
+const CARD_ATTRIBUTES = ["overlay-style", "href", "style"]
+
+/** The card whose cached details an attribute change outdates, if any. */
+function getChangedCard(target: Element, attribute: string | null): Element | null {
+  // Only the progress bar's inline width matters; this script styles cards itself
+  if (attribute === "style" && !target.matches(selectorList("watchProgress"))) return null
+  const card = target.closest(ANY_CARD_SELECTOR)
+  return card && card !== target ? card : null
+}
+
+/**
+ * Queue the cards a batch of mutations added or changed; true when the page
+ * needs a scan, because of those cards or because a feed grid, channel header,
+ * channel list or menu changed. Other page changes need none.
+ */
+function collectChangedCards(mutations: MutationRecord[]): boolean {
+  let changed = false
+  for (const mutation of mutations) {
+    const target = mutation.target instanceof Element ? mutation.target : null
+    if (mutation.type === "attributes") {
+      const card = target && getChangedCard(target, mutation.attributeName)
+      if (!card) continue
+      forgetCard(card)
+      pendingCards.add(card)
+      changed = true
+      continue
+    }
+    // Tag button labels are rewritten in place
+    if (target && isOwnNode(target)) continue
+    const nodes = [...Array.from(mutation.addedNodes), ...Array.from(mutation.removedNodes)]
+    if (nodes.every(isOwnNode)) continue
+    const card = target?.closest(ANY_CARD_SELECTOR)
+    if (card) {
+      forgetCard(card)
+      pendingCards.add(card)
+    }
+    mutation.addedNodes.forEach((node) => {
+      if (!(node instanceof Element)) return
+      if (node.matches(ANY_CARD_SELECTOR)) pendingCards.add(node)
+      node.querySelectorAll(ANY_CARD_SELECTOR).forEach((inner) => {
+        pendingCards.add(inner)
+      })
+    })
+    // Cards coming or going change the counts and the grid layout even when none is added
+    if (
+      card ||
+      target?.matches(GRID_CONTENTS_SELECTOR) ||
+      target?.closest(PAGE_PART_SELECTOR) ||
+      nodes.some((node) => containsMatch(node, `${ANY_CARD_SELECTOR}, ${PAGE_PART_SELECTOR}`))
+    ) {
+      changed = true
+    }
+  }
+  return changed
+}
+
+/** Process queued cards once per frame, however many mutations came in. */
+function scheduleScan(): void {
+  if (scanScheduled) return
+  scanScheduled = true
+  requestAnimationFrame(() => {
+    scanScheduled = false
+    const cards = Array.from(pendingCards).filter((card) => card.isConnected)
+    pendingCards.clear()
+    scanAndInject(cards)
+  })
+}
+
+/** Scan the page and keep scanning what changes. Returns the observer, for tests to stop it. */
+export function observeFeed(): MutationObserver {
+  const observer = new MutationObserver((mutations) => {
+    if (collectChangedCards(mutations)) scheduleScan()
+  })
+  const options = {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: CARD_ATTRIBUTES,
+  }
+  observer.observe(document.body, options)
+  const appRoot = document.querySelector("ytd-app")?.shadowRoot
+  if (appRoot) observer.observe(appRoot, options)
+  scanAndInject()
+  return observer
+}
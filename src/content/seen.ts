@@ -0,0 +1,104 @@
+import { UNTAGGED_TAG_ID } from "../lib/filters"
+import { addSeenVideos } from "../lib/storage"
+import { getSurface } from "../lib/surfaces"
+import { getTagAncestors } from "../lib/tags"
+import { getActivePage, getCardTags, getCardVideoId, queryAllCards, queryPageCards } from "./cards"
+import { NEW_MARK } from "./constants"
+import { state } from "./state"
+
+// Videos are recorded as seen as soon as they show up in the subscriptions
+// feed, but stay highlighted as new until the visit ends
+export const newVideos = new Set<string>()
+const reportedVideos = new Set<string>()
+let pendingSeenVideos: string[] = []
+let lastUnseenCounts = ""
+
+/** Seen videos are saved in batches while scrolling, and when the page is left. */
+const SEEN_SAVE_DELAY_MS = 10_000
+let saveTimer: ReturnType<typeof setTimeout> | undefined
+
+export function trackNewVideos(cards: Element[]): void {
+  if (!state.seenLoaded || getSurface(location.pathname) !== "subscriptions") return
+  // On first use the whole feed becomes the baseline instead of showing up as new
+  const baseline = Object.keys(state.seenVideos).length === 0
+  const page = getActivePage()
+  for (const card of cards) {
+    if (page && !page.contains(card)) continue
+    const videoId = getCardVideoId(card)
+    if (!videoId || videoId in state.seenVideos || reportedVideos.has(videoId)) continue
+    reportedVideos.add(videoId)
+    pendingSeenVideos.push(videoId)
+    if (!baseline) newVideos.add(videoId)
+  }
+}
+
+export function scheduleSeenVideosSave(): void {
+  if (pendingSeenVideos.length === 0) return
+  saveTimer ??= setTimeout(saveSeenVideos, SEEN_SAVE_DELAY_MS)
+}
+
+function saveSeenVideos(): void {
+  clearTimeout(saveTimer)
+  saveTimer = undefined
+  if (pendingSeenVideos.length === 0) return
+  const videoIds = pendingSeenVideos
+  pendingSeenVideos = []
+  addSeenVideos(videoIds, Date.now()).then(
+    (seen) => {
+      state.seenVideos = seen
+    },
+    (error) => console.warn("[youtube-lens] Failed to save seen videos", error)
+  )
+}
+
+export function attachSeenVideosSave(): void {
+  window.addEventListener("pagehide", saveSeenVideos)
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") saveSeenVideos()
+  })
+}
+
+/** Tags a new card counts towards: its tags and their ancestors, or Untagged. */
+function getCountedTags(card: Element): string[] {
+  const assigned = getCardTags(card) ?? []
+  if (assigned.length === 0) return [UNTAGGED_TAG_ID]
+  const counted = new Set(assigned)
+  for (const id of assigned) {
+    for (const ancestor of getTagAncestors(state.tagList, id)) counted.add(ancestor.id)
+  }
+  return [...counted]
+}
+
+/** Mark new cards among `cards` and tell the panel how many the page has per tag. */
+export function applyNewHighlights(cards = queryAllCards()): void {
+  for (const card of cards) {
+    const videoId = newVideos.size > 0 ? getCardVideoId(card) : null
+    const isNew = videoId !== null && newVideos.has(videoId)
+    if (isNew && !card.hasAttribute(NEW_MARK)) card.setAttribute(NEW_MARK, "1")
+    else if (!isNew && card.hasAttribute(NEW_MARK)) card.removeAttribute(NEW_MARK)
+  }
+
+  const counts: Record<string, number> = {}
+  for (const card of queryPageCards(`[${NEW_MARK}]`)) {
+    for (const id of getCountedTags(card)) counts[id] = (counts[id] ?? 0) + 1
+  }
+
+  const signature = JSON.stringify(counts)
+  if (signature === lastUnseenCounts) return
+  lastUnseenCounts = signature
+  window.dispatchEvent(new CustomEvent("ytx-unseen-counts", { detail: { counts } }))
+}
+
+export function attachMarkSeenListener(): void {
+  window.addEventListener("ytx-mark-seen", (event) => {
+    const tagId = (event as CustomEvent<{ tagId: string }>).detail?.tagId
+    if (!tagId) return
+    for (const card of queryAllCards()) {
+      const videoId = getCardVideoId(card)
+      if (videoId && newVideos.has(videoId) && getCountedTags(card).includes(tagId)) {
+        newVideos.delete(videoId)
+      }
+    }
+    applyNewHighlights()
+  })
+}
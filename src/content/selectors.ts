@@ -0,0 +1,234 @@
+// =============================================================================
+// Selector Registry
+// =============================================================================
+
+// Every selector that depends on YouTube's markup, so a redesign can be traced
+// to the group that stopped matching. "fallback" groups are tried in order and
+// count which selector answered each lookup; "page" groups are matched all at
+// once and are counted on the page when a diagnostics report is requested.
+
+type SelectorGroup = {
+  label: string
+  kind: "fallback" | "page"
+  /** Set when lookups are expected to miss, e.g. live streams have no duration. */
+  optional?: boolean
+  selectors: string[]
+}
+
+export const SELECTOR_GROUPS = {
+  videoCard: {
+    label: "Video cards",
+    kind: "page",
+    selectors: [
+      "ytd-grid-video-renderer",
+      "ytd-rich-item-renderer",
+      "ytd-rich-grid-video-renderer",
+      "ytd-video-renderer",
+      "ytd-compact-video-renderer",
+    ],
+  },
+  shortsItem: {
+    label: "Shorts shelf items",
+    kind: "page",
+    selectors: ["ytd-reel-item-renderer", "ytm-shorts-lockup-view-model"],
+  },
+  channelLink: {
+    label: "Channel links in cards",
+    kind: "fallback",
+    selectors: [
+      "a#avatar-link",
+      "ytd-channel-name a[href*='/channel/'], ytd-channel-name a[href*='/@'], ytd-channel-name a[href*='/c/']",
+      "ytd-video-meta-block a[href*='/channel/'], ytd-video-meta-block a[href*='/@'], ytd-video-meta-block a[href*='/c/']",
+      "ytd-video-owner-renderer a[href*='/channel/'], ytd-video-owner-renderer a[href*='/@']",
+      "#byline-container a[href*='/channel/'], #byline-container a[href*='/@']",
+      "#metadata-line a[href*='/channel/'], #metadata-line a[href*='/@']",
+      "#text-container a[href*='/channel/'], #text-container a[href*='/@']",
+      "yt-formatted-string#text a[href*='/channel/'], yt-formatted-string#text a[href*='/@']",
+      "#channel-info a[href*='/channel/'], #channel-info a[href*='/@']",
+      "a[href]",
+    ],
+  },
+  videoLink: {
+    label: "Video links",
+    kind: "page",
+    selectors: ["a#thumbnail[href]", 'a[href*="/watch?v="]', 'a[href^="/shorts/"]'],
+  },
+  thumbnail: {
+    label: "Card thumbnails",
+    kind: "fallback",
+    selectors: [
+      "ytd-thumbnail",
+      "#thumbnail",
+      "a#thumbnail",
+      ".ytd-thumbnail",
+      "#dismissible ytd-thumbnail",
+      "#dismissible #thumbnail",
+    ],
+  },
+  title: {
+    label: "Video titles",
+    kind: "fallback",
+    selectors: [
+      "#video-title",
+      "a#video-title-link",
+      ".yt-lockup-metadata-view-model-wiz__title",
+      "h3 a",
+    ],
+  },
+  cardChannelName: {
+    label: "Channel names in cards",
+    kind: "fallback",
+    selectors: ["ytd-channel-name #text"],
+  },
+  duration: {
+    label: "Duration badges",
+    kind: "fallback",
+    optional: true,
+    selectors: [
+      "ytd-thumbnail-overlay-time-status-renderer #text",
+      "badge-shape .badge-shape-wiz__text",
+      ".yt-badge-shape__text",
+    ],
+  },
+  uploadAge: {
+    label: "Upload ages",
+    kind: "fallback",
+    optional: true,
+    selectors: [
+      "#metadata-line span",
+      ".yt-content-metadata-view-model-wiz__metadata-text",
+      ".yt-content-metadata-view-model__metadata-text",
+    ],
+  },
+  watchProgress: {
+    label: "Watch progress bars",
+    kind: "fallback",
+    optional: true,
+    selectors: [
+      "ytd-thumbnail-overlay-resume-playback-renderer #progress",
+      ".ytThumbnailOverlayProgressBarHostWatchedProgressBarSegment",
+    ],
+  },
+  avatar: {
+    label: "Channel avatars",
+    kind: "fallback",
+    optional: true,
+    selectors: ["#avatar-link img", "#avatar img", "yt-avatar-shape img", "#channel-thumbnail img"],
+  },
+  channelPageName: {
+    label: "Channel page names",
+    kind: "fallback",
+    selectors: [
+      "ytd-c4-tabbed-header-renderer ytd-channel-name yt-formatted-string#text",
+      "ytd-c4-tabbed-header-renderer ytd-channel-name #text",
+      "#page-header ytd-channel-name yt-formatted-string",
+      "#page-header yt-dynamic-text-view-model .yt-core-attributed-string",
+      "#channel-header ytd-channel-name #text",
+      "#channel-header-container ytd-channel-name #text",
+      "ytd-c4-tabbed-header-renderer #channel-name",
+      "#page-header #channel-name",
+    ],
+  },
+  channelPageHandle: {
+    label: "Channel page handles",
+    kind: "page",
+    selectors: [
+      "#page-header yt-content-metadata-view-model span",
+      "#channel-header #channel-handle",
+    ],
+  },
+  menuList: {
+    label: "Video menu lists",
+    kind: "page",
+    selectors: [
+      "ytd-menu-popup-renderer tp-yt-paper-listbox",
+      "ytd-menu-popup-renderer paper-listbox",
+    ],
+  },
+  menuPopup: {
+    label: "Video menus",
+    kind: "page",
+    selectors: ["ytd-menu-popup-renderer"],
+  },
+  continuation: {
+    label: "Infinite scroll triggers",
+    kind: "page",
+    selectors: ["ytd-continuation-item-renderer", "ytd-rich-grid-renderer #continuations"],
+  },
+  shortsShelf: {
+    label: "Shorts shelves",
+    kind: "page",
+    selectors: ["ytd-rich-shelf-renderer", "ytd-reel-shelf-renderer"],
+  },
+} satisfies Record<string, SelectorGroup>
+
+export type SelectorGroupId = keyof typeof SELECTOR_GROUPS
+
+export const SELECTOR_GROUP_IDS = Object.keys(SELECTOR_GROUPS) as SelectorGroupId[]
+
+export function getSelectorGroup(id: SelectorGroupId): SelectorGroup {
+  return SELECTOR_GROUPS[id]
+}
+
+/** All selectors of a group as one selector, for matching them at once. */
+export function selectorList(id: SelectorGroupId): string {
+  return getSelectorGroup(id).selectors.join(", ")
+}
+
+// =============================================================================
+// Hit Counters
+// =============================================================================
+
+// Counted since the last navigation, so a report describes the current page
+const hits = new Map<SelectorGroupId, number[]>()
+const misses = new Map<SelectorGroupId, number>()
+
+/** Count a lookup as answered by the selector at `index`, or as a miss when null. */
+export function recordLookup(id: SelectorGroupId, index: number | null): void {
+  if (index === null) {
+    misses.set(id, (misses.get(id) ?? 0) + 1)
+    return
+  }
+  const counts = hits.get(id) ?? getSelectorGroup(id).selectors.map(() => 0)
+  counts[index] += 1
+  hits.set(id, counts)
+}
+
+export function getSelectorHits(id: SelectorGroupId): { hits: number[]; misses: number } {
+  return {
+    hits: hits.get(id) ?? getSelectorGroup(id).selectors.map(() => 0),
+    misses: misses.get(id) ?? 0,
+  }
+}
+
+export function resetSelectorHits(): void {
+  hits.clear()
+  misses.clear()
+}
+
+/**
+ * The first non-null result of `find` over the group's selectors, in order.
+ * Counts which selector answered, or a miss.
+ */
+export function findFirst<T>(
+  id: SelectorGroupId,
+  find: (selector: string) => T | null | undefined
+): T | null {
+  const { selectors } = getSelectorGroup(id)
+  for (let i = 0; i < selectors.length; i += 1) {
+    const found = find(selectors[i])
+    if (found !== null && found !== undefined) {
+      recordLookup(id, i)
+      return found
+    }
+  }
+  recordLookup(id, null)
+  return null
+}
+
+export function queryFirst<T extends Element = Element>(
+  root: ParentNode,
+  id: SelectorGroupId
+): T | null {
+  return findFirst(id, (selector) => root.querySelector<T>(selector))
+}
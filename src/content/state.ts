@@ -0,0 +1,57 @@
+import type { ChannelAliasMap, ChannelMetaMap, ChannelTagMap } from "../lib/channels"
+import type { TagRule } from "../lib/rules"
+import type { SeenVideoMap } from "../lib/seen"
+import { DEFAULT_SURFACE_FILTERS, type SurfaceFilters } from "../lib/surfaces"
+import type { Tag } from "../lib/types"
+import type { VideoTagMap } from "../lib/videos"
+
+type ContentState = {
+  surfaceFilters: SurfaceFilters
+  channelTagMap: ChannelTagMap
+  videoTagMap: VideoTagMap
+  channelAliases: ChannelAliasMap
+  channelMeta: ChannelMetaMap
+  /**
+   * Channel URL by video id, from cards that had a channel link and from
+   * channel pages. Shorts shelf items have no link and are looked up here.
+   */
+  videoChannels: Record<string, string>
+  tagList: Tag[]
+  tagRules: TagRule[]
+  revealHidden: boolean
+  seenVideos: SeenVideoMap
+  /** Nothing counts as new until the seen set has been read from storage. */
+  seenLoaded: boolean
+}
+
+/** Settings the content script filters with, as last read from storage or sent by the app. */
+export const state: ContentState = {
+  surfaceFilters: DEFAULT_SURFACE_FILTERS,
+  channelTagMap: {},
+  videoTagMap: {},
+  channelAliases: {},
+  channelMeta: {},
+  videoChannels: {},
+  tagList: [],
+  tagRules: [],
+  revealHidden: false,
+  seenVideos: {},
+  seenLoaded: false,
+}
+
+/** Put every setting back to its default, for tests that share the module. */
+export function resetState(): void {
+  Object.assign(state, {
+    surfaceFilters: DEFAULT_SURFACE_FILTERS,
+    channelTagMap: {},
+    videoTagMap: {},
+    channelAliases: {},
+    channelMeta: {},
+    videoChannels: {},
+    tagList: [],
+    tagRules: [],
+    revealHidden: false,
+    seenVideos: {},
+    seenLoaded: false,
+  })
+}
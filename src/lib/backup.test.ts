@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { parseBackup, resolveTagReferences } from "./backup"
+import type { Tag } from "./types"
+
+const tag = (id: string): Tag => ({ id, name: id, color: "#123456" })
+const CHANNEL = "https://www.youtube.com/@speedcrew"
+
+function parse(data: Record<string, unknown>) {
+  const result = parseBackup(
+    JSON.stringify({ format: "youtube-lens-backup", schemaVersion: 2, data })
+  )
+  if (!result.ok) throw new Error(result.error)
+  return result.backup
+}
+
+describe("tag references in backups", () => {
+  it("checks assignments against the tags in the file", () => {
+    const backup = parse({
+      ytx_tags: [tag("racing")],
+      ytx_channel_tags: { [CHANNEL]: ["racing", "gone"] },
+    })
+
+    expect(backup.settings.channelTags).toEqual({ [CHANNEL]: ["racing"] })
+    expect(backup.warnings).toEqual(["1 assignment(s) to unknown tags were skipped."])
+  })
+
+  it("checks a file without tags against the current ones", () => {
+    const backup = parse({
+      ytx_channel_tags: { [CHANNEL]: ["racing", "gone"] },
+      ytx_rules: [
+        {
+          id: "rule",
+          tagId: "gone",
+          enabled: true,
+          condition: { field: "channel", contains: "crew" },
+        },
+      ],
+    })
+    expect(backup.settings.channelTags).toEqual({ [CHANNEL]: ["racing", "gone"] })
+
+    const resolved = resolveTagReferences(backup, [tag("racing")])
+    expect(resolved.settings.channelTags).toEqual({ [CHANNEL]: ["racing"] })
+    expect(resolved.settings.rules).toEqual([])
+    expect(resolved.warnings).toEqual([
+      "1 assignment(s) to unknown tags were skipped.",
+      "1 rule(s) for unknown tags were skipped.",
+    ])
+  })
+
+  it("moves tags nested in a loop to the top level", () => {
+    const backup = parse({
+      ytx_tags: [
+        { ...tag("motor"), parentId: "racing" },
+        { ...tag("racing"), parentId: "motor" },
+        { ...tag("mx"), parentId: "racing" },
+      ],
+    })
+
+    expect(backup.settings.tags).toEqual([
+      tag("motor"),
+      { ...tag("racing"), parentId: "motor" },
+      { ...tag("mx"), parentId: "racing" },
+    ])
+    expect(backup.warnings).toEqual(["1 tag(s) nested in a loop were moved to the top level."])
+  })
+})
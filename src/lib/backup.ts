@@ -0,0 +1,459 @@
+import {
+  type ChannelMetaMap,
+  type ChannelTagMap,
+  mergeChannelMeta,
+  migrateChannelMeta,
+  migrateChannelTags,
+} from "./channels"
+import { pruneTagFilter } from "./filters"
+import {
+  LEGACY_FILTER_KEYS,
+  SETTING_KEYS,
+  type Settings,
+  settingsFromRecord,
+  settingsToRecord,
+} from "./storage"
+import { FEED_ARRANGEMENTS, mapSurfaceTagFilters } from "./surfaces"
+import { breakTagCycles } from "./tags"
+import type { Tag } from "./types"
+import { mapVideoTagIds, type VideoTagMap } from "./videos"
+
+export const BACKUP_FORMAT = "youtube-lens-backup"
+
+/**
+ * Version 1 files are raw storage dumps without an envelope. Version 2 wraps
+ * the same storage-keyed record in `data`.
+ */
+export const BACKUP_SCHEMA_VERSION = 2
+
+export type BackupEnvelope = {
+  format: typeof BACKUP_FORMAT
+  schemaVersion: number
+  exportedAt: string
+  extensionVersion: string
+  data: Record<string, unknown>
+}
+
+export type ParsedBackup = {
+  /** Takeout subscription lists only add channels, so they are always merged. */
+  source: "backup" | "takeout"
+  schemaVersion: number
+  exportedAt: string | null
+  extensionVersion: string | null
+  settings: Partial<Settings>
+  /** Problems that were repaired rather than rejected. */
+  warnings: string[]
+}
+
+export type BackupParseResult = { ok: true; backup: ParsedBackup } | { ok: false; error: string }
+
+export type ImportMode = "replace" | "merge"
+
+export type BackupDiff = {
+  tagsAdded: Tag[]
+  tagsRemoved: Tag[]
+  channelsAdded: number
+  channelsRemoved: number
+  channelsRetagged: { channelUrl: string; before: string[]; after: string[] }[]
+  /** Videos whose own tags are new or different. */
+  videosRetagged: number
+  /** Channels new to the channel list, tagged or not. */
+  channelsListed: number
+}
+
+function getExtensionVersion(): string {
+  if (typeof chrome === "undefined" || !chrome.runtime?.getManifest) return "unknown"
+  return chrome.runtime.getManifest().version
+}
+
+export function createBackup(settings: Settings): BackupEnvelope {
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    extensionVersion: getExtensionVersion(),
+    data: settingsToRecord(settings),
+  }
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string")
+}
+
+function isTag(value: unknown): value is Tag {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    value.id.length > 0 &&
+    typeof value.name === "string" &&
+    typeof value.color === "string" &&
+    (value.parentId === undefined || typeof value.parentId === "string") &&
+    (value.hide === undefined || typeof value.hide === "boolean")
+  )
+}
+
+function isTagFilter(value: unknown): boolean {
+  return (
+    isStringArray(value) ||
+    (isRecord(value) && isStringArray(value.include ?? []) && isStringArray(value.exclude ?? []))
+  )
+}
+
+function isBooleanRecord(value: unknown): boolean {
+  return isRecord(value) && Object.values(value).every((enabled) => typeof enabled === "boolean")
+}
+
+function isWatchedFilter(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    (value.mode === "all" || value.mode === "hide" || value.mode === "unwatched") &&
+    typeof value.threshold === "number"
+  )
+}
+
+function isOptionalNumber(value: unknown): boolean {
+  return value === null || typeof value === "number"
+}
+
+function isDurationFilter(value: unknown): boolean {
+  return isRecord(value) && isOptionalNumber(value.min) && isOptionalNumber(value.max)
+}
+
+function isTitleRule(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.text === "string" &&
+    typeof value.regex === "boolean" &&
+    (value.mode === "include" || value.mode === "exclude") &&
+    typeof value.enabled === "boolean"
+  )
+}
+
+/** The filter settings shared by surfaces and presets; all but the first two are optional. */
+function isSurfaceView(value: Record<string, unknown>): boolean {
+  return (
+    isTagFilter(value.filter) &&
+    isBooleanRecord(value.contentTypes) &&
+    (value.watched === undefined || isWatchedFilter(value.watched)) &&
+    (value.duration === undefined || isDurationFilter(value.duration)) &&
+    (value.maxAgeDays === undefined || isOptionalNumber(value.maxAgeDays)) &&
+    (value.titleRules === undefined ||
+      (Array.isArray(value.titleRules) && value.titleRules.every(isTitleRule))) &&
+    (value.arrange === undefined || FEED_ARRANGEMENTS.some(({ id }) => id === value.arrange))
+  )
+}
+
+function isRuleCondition(value: unknown): boolean {
+  if (!isRecord(value)) return false
+  if (value.field === "title") return typeof value.pattern === "string"
+  if (value.field === "channel") return typeof value.contains === "string"
+  return (
+    value.field === "duration" &&
+    (value.op === "gt" || value.op === "lt") &&
+    typeof value.minutes === "number"
+  )
+}
+
+const VALIDATORS: { [K in keyof Settings]: (value: unknown) => boolean } = {
+  tags: (value) => Array.isArray(value) && value.every(isTag),
+  channelTags: (value) => isRecord(value) && Object.values(value).every(isStringArray),
+  videoTags: (value) =>
+    isRecord(value) &&
+    Object.values(value).every(
+      (video) =>
+        isRecord(video) &&
+        isStringArray(video.tags) &&
+        (video.mode === "add" || video.mode === "override")
+    ),
+  aliases: (value) =>
+    isRecord(value) && Object.values(value).every((target) => typeof target === "string"),
+  channels: (value) =>
+    isRecord(value) &&
+    Object.values(value).every(
+      (channel) =>
+        isRecord(channel) &&
+        typeof channel.name === "string" &&
+        (channel.avatar === undefined || typeof channel.avatar === "string") &&
+        (channel.firstSeen === undefined || typeof channel.firstSeen === "number") &&
+        (channel.lastSeen === undefined || typeof channel.lastSeen === "number")
+    ),
+  surfaces: (value) =>
+    isRecord(value) &&
+    Object.values(value).every(
+      (surface) =>
+        isRecord(surface) &&
+        (surface.enabled === undefined || typeof surface.enabled === "boolean") &&
+        isSurfaceView(surface)
+    ),
+  panelOpen: (value) => typeof value === "boolean",
+  presets: (value) =>
+    Array.isArray(value) &&
+    value.every(
+      (preset) =>
+        isRecord(preset) &&
+        typeof preset.id === "string" &&
+        typeof preset.name === "string" &&
+        isSurfaceView(preset)
+    ),
+  rules: (value) =>
+    Array.isArray(value) &&
+    value.every(
+      (rule) =>
+        isRecord(rule) &&
+        typeof rule.id === "string" &&
+        typeof rule.tagId === "string" &&
+        typeof rule.enabled === "boolean" &&
+        isRuleCondition(rule.condition)
+    ),
+  hotkeys: (value) =>
+    isRecord(value) && Object.values(value).every((combo) => typeof combo === "string"),
+}
+
+/** Validators for keys written by older versions, by storage key. */
+const LEGACY_VALIDATORS: Record<string, (value: unknown) => boolean> = {
+  [LEGACY_FILTER_KEYS.activeFilter]: isTagFilter,
+  [LEGACY_FILTER_KEYS.contentTypes]: isBooleanRecord,
+}
+
+/** Validate and normalize the contents of a backup file. */
+export function parseBackup(text: string): BackupParseResult {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { ok: false, error: "The file is not valid JSON." }
+  }
+  if (!isRecord(json)) return { ok: false, error: "The file does not contain a backup." }
+
+  let data: Record<string, unknown> = json
+  let schemaVersion = 1
+  let exportedAt: string | null = null
+  let extensionVersion: string | null = null
+
+  if (json.format === BACKUP_FORMAT) {
+    if (typeof json.schemaVersion !== "number" || !isRecord(json.data)) {
+      return { ok: false, error: "The backup envelope is incomplete." }
+    }
+    if (json.schemaVersion > BACKUP_SCHEMA_VERSION) {
+      return {
+        ok: false,
+        error: `This backup uses schema version ${json.schemaVersion}; update the extension to import it.`,
+      }
+    }
+    data = json.data
+    schemaVersion = json.schemaVersion
+    exportedAt = typeof json.exportedAt === "string" ? json.exportedAt : null
+    extensionVersion = typeof json.extensionVersion === "string" ? json.extensionVersion : null
+  }
+
+  const checks = [
+    ...(Object.keys(SETTING_KEYS) as (keyof Settings)[]).map((name) => ({
+      key: SETTING_KEYS[name],
+      valid: VALIDATORS[name],
+    })),
+    ...Object.entries(LEGACY_VALIDATORS).map(([key, valid]) => ({ key, valid })),
+  ].filter(({ key }) => data[key] !== undefined)
+  if (!checks.length) return { ok: false, error: "The file does not contain any Lens settings." }
+
+  const invalid = checks.filter(({ key, valid }) => !valid(data[key]))
+  if (invalid.length) {
+    const keys = invalid.map(({ key }) => key).join(", ")
+    return { ok: false, error: `The backup has invalid values for: ${keys}.` }
+  }
+
+  const settings = settingsFromRecord(data)
+  const fileTags = data[SETTING_KEYS.tags] as Tag[] | undefined
+  const looped = settings.tags?.filter((tag, i) => tag.parentId !== fileTags?.[i].parentId).length
+  // Tag references must point at tags from the same file when it has any;
+  // otherwise they are checked against the current tags on import
+  const warnings = settings.tags
+    ? pruneTagReferences(
+        settings,
+        settings.tags.map((tag) => tag.id)
+      )
+    : []
+  if (looped) warnings.push(`${looped} tag(s) nested in a loop were moved to the top level.`)
+
+  return {
+    ok: true,
+    backup: { source: "backup", schemaVersion, exportedAt, extensionVersion, settings, warnings },
+  }
+}
+
+/**
+ * Drop assignments, filter entries and rules that refer to tags not in
+ * `tagIds`. Updates `settings` in place and returns warnings for what was dropped.
+ */
+function pruneTagReferences(settings: Partial<Settings>, tagIds: string[]): string[] {
+  const warnings: string[] = []
+  let dropped = 0
+  const known = (ids: string[]) => {
+    const kept = ids.filter((id) => tagIds.includes(id))
+    dropped += ids.length - kept.length
+    return kept
+  }
+  if (settings.channelTags) {
+    const channelTags: ChannelTagMap = {}
+    for (const [url, ids] of Object.entries(settings.channelTags)) {
+      channelTags[url] = known(ids)
+    }
+    settings.channelTags = channelTags
+  }
+  if (settings.videoTags) settings.videoTags = mapVideoTagIds(settings.videoTags, known)
+  if (dropped) warnings.push(`${dropped} assignment(s) to unknown tags were skipped.`)
+  if (settings.surfaces) {
+    settings.surfaces = mapSurfaceTagFilters(settings.surfaces, (filter) =>
+      pruneTagFilter(filter, tagIds)
+    )
+  }
+  if (settings.presets) {
+    settings.presets = settings.presets.map((preset) => ({
+      ...preset,
+      filter: pruneTagFilter(preset.filter, tagIds),
+    }))
+  }
+  if (settings.rules) {
+    const rules = settings.rules.filter((rule) => tagIds.includes(rule.tagId))
+    const droppedRules = settings.rules.length - rules.length
+    settings.rules = rules
+    if (droppedRules) warnings.push(`${droppedRules} rule(s) for unknown tags were skipped.`)
+  }
+  return warnings
+}
+
+/**
+ * A backup without tags assigns the tags that exist here; drop references to
+ * ones that don't. Backups with tags were already checked against their own.
+ */
+export function resolveTagReferences(backup: ParsedBackup, tags: Tag[]): ParsedBackup {
+  if (backup.settings.tags) return backup
+  const settings = { ...backup.settings }
+  const warnings = pruneTagReferences(
+    settings,
+    tags.map((tag) => tag.id)
+  )
+  return { ...backup, settings, warnings: [...backup.warnings, ...warnings] }
+}
+
+// =============================================================================
+// Merge & Diff
+// =============================================================================
+
+function mergeChannelTags(current: ChannelTagMap, incoming: ChannelTagMap): ChannelTagMap {
+  const merged: ChannelTagMap = { ...current }
+  for (const [url, ids] of Object.entries(incoming)) {
+    const existing = merged[url] ?? []
+    merged[url] = [...existing, ...ids.filter((id) => !existing.includes(id))]
+  }
+  return merged
+}
+
+/** Union each video's tags; a video already tagged here keeps its mode. */
+function mergeVideoTags(current: VideoTagMap, incoming: VideoTagMap): VideoTagMap {
+  const merged: VideoTagMap = { ...current }
+  for (const [videoId, video] of Object.entries(incoming)) {
+    const existing = merged[videoId]
+    merged[videoId] = existing
+      ? { ...existing, tags: [...new Set([...existing.tags, ...video.tags])] }
+      : video
+  }
+  return merged
+}
+
+function mergeChannels(current: ChannelMetaMap, incoming: ChannelMetaMap): ChannelMetaMap {
+  const merged: ChannelMetaMap = { ...current }
+  for (const [url, channel] of Object.entries(incoming)) {
+    merged[url] = merged[url] ? mergeChannelMeta(merged[url], channel) : channel
+  }
+  return merged
+}
+
+/**
+ * The settings to write for an import. "replace" overwrites every setting the
+ * file contains; "merge" only adds tags, channel and video assignments, rules,
+ * aliases and channel metadata.
+ */
+export function applyImport(
+  current: Settings,
+  incoming: Partial<Settings>,
+  mode: ImportMode
+): Settings {
+  if (mode === "replace") {
+    const next = { ...current, ...incoming }
+    return {
+      ...next,
+      channelTags: migrateChannelTags(next.channelTags, next.aliases),
+      channels: migrateChannelMeta(next.channels, next.aliases),
+    }
+  }
+
+  const tagIds = current.tags.map((tag) => tag.id)
+  const presetIds = current.presets.map((preset) => preset.id)
+  const ruleIds = current.rules.map((rule) => rule.id)
+  const aliases = { ...(incoming.aliases ?? {}), ...current.aliases }
+  return {
+    ...current,
+    // A current tag can name a parent that only the file has
+    tags: breakTagCycles([
+      ...current.tags,
+      ...(incoming.tags ?? []).filter((tag) => !tagIds.includes(tag.id)),
+    ]),
+    aliases,
+    presets: [
+      ...current.presets,
+      ...(incoming.presets ?? []).filter((preset) => !presetIds.includes(preset.id)),
+    ],
+    rules: [
+      ...current.rules,
+      ...(incoming.rules ?? []).filter((rule) => !ruleIds.includes(rule.id)),
+    ],
+    channelTags: migrateChannelTags(
+      mergeChannelTags(current.channelTags, incoming.channelTags ?? {}),
+      aliases
+    ),
+    videoTags: mergeVideoTags(current.videoTags, incoming.videoTags ?? {}),
+    channels: migrateChannelMeta(mergeChannels(current.channels, incoming.channels ?? {}), aliases),
+  }
+}
+
+export function diffSettings(current: Settings, next: Settings): BackupDiff {
+  const currentIds = current.tags.map((tag) => tag.id)
+  const nextIds = next.tags.map((tag) => tag.id)
+  const diff: BackupDiff = {
+    tagsAdded: next.tags.filter((tag) => !currentIds.includes(tag.id)),
+    tagsRemoved: current.tags.filter((tag) => !nextIds.includes(tag.id)),
+    channelsAdded: 0,
+    channelsRemoved: 0,
+    channelsRetagged: [],
+    videosRetagged: 0,
+    channelsListed: Object.keys(next.channels).filter((url) => !current.channels[url]).length,
+  }
+
+  for (const [channelUrl, after] of Object.entries(next.channelTags)) {
+    const before = current.channelTags[channelUrl]
+    if (!before) {
+      if (after.length) diff.channelsAdded += 1
+      continue
+    }
+    const changed = before.length !== after.length || before.some((id) => !after.includes(id))
+    if (changed) diff.channelsRetagged.push({ channelUrl, before, after })
+  }
+  for (const [channelUrl, before] of Object.entries(current.channelTags)) {
+    if (before.length && !next.channelTags[channelUrl]) diff.channelsRemoved += 1
+  }
+  for (const [videoId, after] of Object.entries(next.videoTags)) {
+    if (JSON.stringify(current.videoTags[videoId]) !== JSON.stringify(after)) {
+      diff.videosRetagged += 1
+    }
+  }
+  return diff
+}
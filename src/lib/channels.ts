@@ -0,0 +1,198 @@
+import { normalizeChannelUrl } from "./utils"
+
+/** Every known URL form of a channel (normalized) mapped to its canonical key. */
+export type ChannelAliasMap = Record<string, string>
+
+export type ChannelTagMap = Record<string, string[]>
+
+/** What is known about a channel besides its tags, captured while scanning pages. */
+export type ChannelMeta = {
+  name: string
+  avatar?: string
+  /** Epoch ms of the first and the latest time the channel was on a scanned page. */
+  firstSeen?: number
+  lastSeen?: number
+}
+
+/** Channel metadata keyed like `ChannelTagMap`. */
+export type ChannelMetaMap = Record<string, ChannelMeta>
+
+/** Everything known about one channel. */
+export type ChannelRecord = ChannelMeta & {
+  /** Canonical channel URL, the key of its tag assignments. */
+  url: string
+  tags: string[]
+}
+
+/** A channel as found on a page by the content script. */
+export type ChannelSighting = {
+  url: string
+  name: string
+  avatar?: string
+}
+
+const CHANNEL_ID_PATH = /^\/channel\/(UC[\w-]{22})$/i
+
+/**
+ * Canonical form of a channel URL. Identical to `normalizeChannelUrl` except
+ * that `/channel/UC…` ids keep their case, since channel ids are case-sensitive.
+ */
+export function canonicalChannelUrl(url: string): string {
+  try {
+    const u = new URL(url, "https://www.youtube.com")
+    const path = u.pathname.replace(/\/$/, "")
+    const match = path.match(CHANNEL_ID_PATH)
+    if (match) return `https://www.youtube.com/channel/${match[1]}`
+  } catch {
+    // Fall through to the plain normalization
+  }
+  return normalizeChannelUrl(url)
+}
+
+/** The `UC…` id of a `/channel/` URL, or null for handles and custom URLs. */
+export function getChannelId(url: string): string | null {
+  try {
+    const path = new URL(url, "https://www.youtube.com").pathname.replace(/\/$/, "")
+    return path.match(CHANNEL_ID_PATH)?.[1] ?? null
+  } catch {
+    return null
+  }
+}
+
+/** Resolve any URL form of a channel to its canonical key. */
+export function resolveChannelKey(url: string, aliases: ChannelAliasMap): string {
+  return aliases[normalizeChannelUrl(url)] ?? canonicalChannelUrl(url)
+}
+
+/** Prefer the `/channel/UC…` form since handles and custom URLs can change. */
+function pickCanonical(urls: string[]): string {
+  return urls.find((url) => getChannelId(url) !== null) ?? urls[0]
+}
+
+/**
+ * Record that all `urls` belong to the same channel. Returns a new map, or
+ * null when nothing new was learned.
+ */
+export function addChannelAliases(
+  aliases: ChannelAliasMap,
+  urls: string[]
+): ChannelAliasMap | null {
+  const forms = urls.map(canonicalChannelUrl)
+  if (!forms.length) return null
+  const previous = forms.map((url) => resolveChannelKey(url, aliases))
+  const canonical = pickCanonical([...forms, ...previous])
+
+  const next: ChannelAliasMap = { ...aliases }
+  let changed = false
+  const point = (alias: string) => {
+    if (next[alias] === canonical) return
+    next[alias] = canonical
+    changed = true
+  }
+
+  for (const url of [...forms, ...previous, canonical]) {
+    point(normalizeChannelUrl(url))
+  }
+  // Aliases learned earlier for any of the merged identities follow along
+  for (const [alias, target] of Object.entries(aliases)) {
+    if (target !== canonical && previous.includes(target)) point(alias)
+  }
+  return changed ? next : null
+}
+
+/**
+ * Re-key a channel tag map onto canonical keys, merging the tags of entries
+ * that turn out to be the same channel. Returns the input when nothing moved.
+ */
+export function migrateChannelTags(
+  channelTags: ChannelTagMap,
+  aliases: ChannelAliasMap
+): ChannelTagMap {
+  return rekeyChannels(channelTags, aliases, (existing, tagIds) => [
+    ...existing,
+    ...tagIds.filter((id) => !existing.includes(id)),
+  ])
+}
+
+export function migrateChannelMeta(
+  channels: ChannelMetaMap,
+  aliases: ChannelAliasMap
+): ChannelMetaMap {
+  return rekeyChannels(channels, aliases, mergeChannelMeta)
+}
+
+/** Combine two entries for one channel, keeping the widest seen range. */
+export function mergeChannelMeta(existing: ChannelMeta, other: ChannelMeta): ChannelMeta {
+  const times = (key: "firstSeen" | "lastSeen") =>
+    [existing[key], other[key]].filter((time): time is number => time !== undefined)
+  const first = times("firstSeen")
+  const last = times("lastSeen")
+  return {
+    name: existing.name || other.name,
+    avatar: existing.avatar ?? other.avatar,
+    firstSeen: first.length ? Math.min(...first) : undefined,
+    lastSeen: last.length ? Math.max(...last) : undefined,
+  }
+}
+
+/** Update a channel's metadata with a new sighting; the latest name and avatar win. */
+export function recordChannelSighting(
+  existing: ChannelMeta | undefined,
+  sighting: ChannelSighting,
+  now: number
+): ChannelMeta {
+  return {
+    name: sighting.name || existing?.name || "",
+    avatar: sighting.avatar ?? existing?.avatar,
+    firstSeen: existing?.firstSeen ?? now,
+    lastSeen: now,
+  }
+}
+
+/** Short form of a channel URL for channels whose name is unknown. */
+export function getChannelLabel(url: string): string {
+  return url.replace(/^https:\/\/www\.youtube\.com\//, "")
+}
+
+/** Every channel with metadata or tag assignments, including `[]` entries. */
+export function getChannelRecords(
+  channels: ChannelMetaMap,
+  channelTags: ChannelTagMap
+): ChannelRecord[] {
+  const urls = new Set([...Object.keys(channels), ...Object.keys(channelTags)])
+  return [...urls].map((url) => ({
+    ...channels[url],
+    url,
+    name: channels[url]?.name || getChannelLabel(url),
+    tags: channelTags[url] ?? [],
+  }))
+}
+
+function rekeyChannels<T>(
+  map: Record<string, T>,
+  aliases: ChannelAliasMap,
+  merge: (existing: T, value: T) => T
+): Record<string, T> {
+  const next: Record<string, T> = {}
+  let changed = false
+  for (const [url, value] of Object.entries(map)) {
+    const key = resolveChannelKey(url, aliases)
+    if (key !== url) changed = true
+    if (key in next) {
+      changed = true
+      next[key] = merge(next[key], value)
+    } else {
+      next[key] = value
+    }
+  }
+  return changed ? next : map
+}
+
+/** Tags assigned to a channel, looked up by any of its URL forms. */
+export function getChannelTags(
+  channelTags: ChannelTagMap,
+  aliases: ChannelAliasMap,
+  url: string
+): string[] {
+  return channelTags[resolveChannelKey(url, aliases)] ?? channelTags[normalizeChannelUrl(url)] ?? []
+}
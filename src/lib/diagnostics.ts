@@ -0,0 +1,62 @@
+/** How one group of fallback selectors fared on the current page. */
+export type SelectorGroupReport = {
+  id: string
+  label: string
+  /**
+   * "fallback": `hits` counts lookups each selector answered since the page
+   * loaded. "page": `hits` counts the elements each selector matches right now.
+   */
+  kind: "fallback" | "page"
+  /** Misses are expected for this group, e.g. live streams have no duration. */
+  optional: boolean
+  selectors: { selector: string; hits: number }[]
+  /** Lookups none of the selectors answered. */
+  misses: number
+}
+
+/** What the content script found on the current page, for the diagnostics view. */
+export type DiagnosticsReport = {
+  url: string
+  /** Whether the page is one of the feeds where video cards are expected. */
+  surface: boolean
+  cards: number
+  cardsWithChannel: number
+  cardsWithVideo: number
+  /** Tag buttons placed on the card itself because no thumbnail matched. */
+  buttonsOffThumbnail: number
+  /** Whether the channel page's tag button is placed; null off channel pages. */
+  headerButton: boolean | null
+  /**
+   * Whether "Add to tag" is in the video menu; null until a menu was opened,
+   * or on pages that aren't filtered.
+   */
+  menuItem: boolean | null
+  groups: SelectorGroupReport[]
+}
+
+/** Plain-language findings that point at markup YouTube changed. */
+export function describeProblems(report: DiagnosticsReport): string[] {
+  const problems: string[] = []
+  const { cards } = report
+  if (report.surface && cards === 0) problems.push("No video cards found on this page")
+  if (cards > 0 && report.cardsWithChannel < cards) {
+    problems.push(`${cards - report.cardsWithChannel} of ${cards} cards had no channel link`)
+  }
+  if (cards > 0 && report.cardsWithVideo < cards) {
+    problems.push(`${cards - report.cardsWithVideo} of ${cards} cards had no video link`)
+  }
+  if (report.buttonsOffThumbnail > 0) {
+    problems.push(`${report.buttonsOffThumbnail} tag button(s) placed off the thumbnail`)
+  }
+  if (report.headerButton === false) problems.push("Header button not placed")
+  if (report.menuItem === false) problems.push('"Add to tag" missing from the video menu')
+
+  for (const group of report.groups) {
+    if (group.optional || group.kind !== "fallback" || group.misses === 0) continue
+    if (group.selectors.some(({ hits }) => hits > 0)) continue
+    problems.push(
+      `No selector for ${group.label.toLowerCase()} matched in ${group.misses} lookup(s)`
+    )
+  }
+  return problems
+}
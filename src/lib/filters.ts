@@ -0,0 +1,98 @@
+import { getTagWithDescendants } from "./tags"
+import type { Tag } from "./types"
+
+/** How included tags combine: "any" matches one of them, "all" requires every one. */
+export type TagFilterMode = "any" | "all"
+
+/** Boolean tag expression shared by the panel and the feed filter. */
+export type TagFilter = {
+  mode: TagFilterMode
+  include: string[]
+  exclude: string[]
+}
+
+export type TagFilterState = "include" | "exclude" | null
+
+export const EMPTY_TAG_FILTER: TagFilter = { mode: "any", include: [], exclude: [] }
+
+/** Virtual tag that matches channels without any tags. */
+export const UNTAGGED_TAG_ID = "__untagged"
+
+export function isTagFilterActive(filter: TagFilter): boolean {
+  return filter.include.length > 0 || filter.exclude.length > 0
+}
+
+export function getTagFilterState(filter: TagFilter, tagId: string): TagFilterState {
+  if (filter.include.includes(tagId)) return "include"
+  if (filter.exclude.includes(tagId)) return "exclude"
+  return null
+}
+
+/** Cycle a tag through off → include → exclude → off. */
+export function cycleTagFilter(filter: TagFilter, tagId: string): TagFilter {
+  const include = filter.include.filter((id) => id !== tagId)
+  const exclude = filter.exclude.filter((id) => id !== tagId)
+  const state = getTagFilterState(filter, tagId)
+  if (state === null) include.push(tagId)
+  if (state === "include") exclude.push(tagId)
+  return { ...filter, include, exclude }
+}
+
+/** Drop references to tags that no longer exist. */
+export function pruneTagFilter(filter: TagFilter, tagIds: string[]): TagFilter {
+  const exists = (id: string) => id === UNTAGGED_TAG_ID || tagIds.includes(id)
+  return {
+    ...filter,
+    include: filter.include.filter(exists),
+    exclude: filter.exclude.filter(exists),
+  }
+}
+
+/** Point references to `sourceId` at `targetId`, e.g. after merging tags. */
+export function replaceTagInFilter(
+  filter: TagFilter,
+  sourceId: string,
+  targetId: string
+): TagFilter {
+  const replace = (ids: string[]) => [
+    ...new Set(ids.map((id) => (id === sourceId ? targetId : id))),
+  ]
+  return { ...filter, include: replace(filter.include), exclude: replace(filter.exclude) }
+}
+
+/**
+ * Read a stored filter. Older versions saved a plain array of tag ids, which
+ * is treated as an "any of" expression.
+ */
+export function parseTagFilter(value: unknown): TagFilter {
+  if (Array.isArray(value)) {
+    return { ...EMPTY_TAG_FILTER, include: value.filter((v) => typeof v === "string") }
+  }
+  if (value && typeof value === "object") {
+    const raw = value as Partial<TagFilter>
+    return {
+      mode: raw.mode === "all" ? "all" : "any",
+      include: Array.isArray(raw.include) ? raw.include : [],
+      exclude: Array.isArray(raw.exclude) ? raw.exclude : [],
+    }
+  }
+  return EMPTY_TAG_FILTER
+}
+
+/**
+ * Evaluate the expression against the tags assigned to a channel. A tag in
+ * the expression also matches channels carrying any of its descendants.
+ */
+export function matchesTagExpression(
+  assigned: string[],
+  filter: TagFilter,
+  tags: Tag[] = []
+): boolean {
+  const has = (id: string) =>
+    id === UNTAGGED_TAG_ID
+      ? assigned.length === 0
+      : getTagWithDescendants(tags, id).some((tagId) => assigned.includes(tagId))
+  if (filter.exclude.some(has)) return false
+  if (!filter.include.length) return true
+  return filter.mode === "all" ? filter.include.every(has) : filter.include.some(has)
+}
@@ -0,0 +1,85 @@
+import type { ContentTypeFilters } from "./types"
+
+export type TagSlot = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9
+
+export type HotkeyAction =
+  | "togglePanel"
+  | "openPalette"
+  | "tagHoveredCard"
+  | `contentType:${keyof ContentTypeFilters}`
+  | `tag:${TagSlot}`
+
+/** Key combination per action, written like "Alt+T"; an empty string turns the action off. */
+export type HotkeyMap = Record<HotkeyAction, string>
+
+const TAG_SLOTS: TagSlot[] = [1, 2, 3, 4, 5, 6, 7, 8, 9]
+
+export const HOTKEY_ACTIONS: { id: HotkeyAction; label: string }[] = [
+  { id: "togglePanel", label: "Open or close the panel" },
+  { id: "openPalette", label: "Command palette" },
+  { id: "tagHoveredCard", label: "Tag the video under the mouse" },
+  { id: "contentType:videos", label: "Toggle videos" },
+  { id: "contentType:live", label: "Toggle live" },
+  { id: "contentType:upcoming", label: "Toggle upcoming" },
+  { id: "contentType:shorts", label: "Toggle shorts" },
+  ...TAG_SLOTS.map((slot) => ({
+    id: `tag:${slot}` as const,
+    label: `Include, exclude or clear tag ${slot}`,
+  })),
+]
+
+// YouTube's player shortcuts are single letters, so defaults use Alt
+export const DEFAULT_HOTKEYS: HotkeyMap = {
+  togglePanel: "Alt+T",
+  openPalette: "Ctrl+K",
+  tagHoveredCard: "Alt+A",
+  "contentType:videos": "Alt+V",
+  "contentType:live": "Alt+L",
+  "contentType:upcoming": "Alt+U",
+  "contentType:shorts": "Alt+S",
+  "tag:1": "Alt+1",
+  "tag:2": "Alt+2",
+  "tag:3": "Alt+3",
+  "tag:4": "Alt+4",
+  "tag:5": "Alt+5",
+  "tag:6": "Alt+6",
+  "tag:7": "Alt+7",
+  "tag:8": "Alt+8",
+  "tag:9": "Alt+9",
+}
+
+const MODIFIER_KEYS = ["Control", "Alt", "Shift", "Meta"]
+
+/**
+ * The combination a key event represents, or null for a bare modifier. Letters
+ * and digits come from the physical key since Alt changes `key` on macOS.
+ */
+export function formatHotkey(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null
+  const code = event.code.match(/^(?:Key|Digit)(\w)$/)?.[1]
+  const key = code ?? (event.key.length === 1 ? event.key.toUpperCase() : event.key)
+  const parts = [
+    event.ctrlKey && "Ctrl",
+    event.altKey && "Alt",
+    event.shiftKey && "Shift",
+    event.metaKey && "Meta",
+    key,
+  ]
+  return parts.filter(Boolean).join("+")
+}
+
+export function findHotkeyAction(hotkeys: HotkeyMap, combo: string): HotkeyAction | null {
+  return HOTKEY_ACTIONS.find(({ id }) => hotkeys[id] === combo)?.id ?? null
+}
+
+/** Keys typed into YouTube's search box, comments or our own inputs are never shortcuts. */
+export function isTypingTarget(event: KeyboardEvent): boolean {
+  const target = event.composedPath()[0]
+  if (!(target instanceof HTMLElement)) return false
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  )
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { createPreset, type FilterPreset, getPresetFilters, presetMatches } from "./presets"
+import { DEFAULT_SURFACE_FILTERS, type SurfaceFilter } from "./surfaces"
+
+const surface: SurfaceFilter = {
+  ...DEFAULT_SURFACE_FILTERS.subscriptions,
+  filter: { mode: "any", include: ["racing"], exclude: [] },
+  watched: { mode: "hide", threshold: 90 },
+  titleRules: [{ id: "t1", text: "reaction", regex: false, mode: "exclude", enabled: true }],
+  arrange: "tag",
+}
+
+describe("views", () => {
+  it("match only while every saved setting is unchanged", () => {
+    const preset = createPreset("racing", "Racing", surface)
+
+    expect(presetMatches(preset, surface)).toBe(true)
+    expect(presetMatches(preset, { ...surface, arrange: "feed" })).toBe(false)
+    expect(presetMatches(preset, { ...surface, duration: { min: 60, max: null } })).toBe(false)
+    expect(presetMatches(preset, { ...surface, watched: { mode: "all", threshold: 90 } })).toBe(
+      false
+    )
+    expect(presetMatches(preset, { ...surface, titleRules: [] })).toBe(false)
+  })
+
+  it("leave settings alone that older views did not save", () => {
+    const preset: FilterPreset = {
+      id: "old",
+      name: "Old",
+      filter: surface.filter,
+      contentTypes: surface.contentTypes,
+    }
+
+    expect(presetMatches(preset, { ...surface, arrange: "channel" })).toBe(true)
+    expect(
+      Object.keys(getPresetFilters(preset, [{ id: "racing", name: "Racing", color: "" }]))
+    ).toEqual(["filter", "contentTypes"])
+  })
+})
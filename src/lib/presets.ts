@@ -0,0 +1,78 @@
+import { pruneTagFilter, type TagFilter } from "./filters"
+import type { FeedArrangement, SurfaceFilter } from "./surfaces"
+import type { TitleRule } from "./titles"
+import type { ContentTypeFilters, DurationFilter, Tag, WatchedFilter } from "./types"
+
+/**
+ * A named set of surface filter settings ("view"). Presets saved before views
+ * kept more than the tag filter and content types have none of the optional
+ * fields; applying them leaves those settings as they are.
+ */
+export type FilterPreset = {
+  id: string
+  name: string
+  filter: TagFilter
+  contentTypes: ContentTypeFilters
+  watched?: WatchedFilter
+  duration?: DurationFilter
+  maxAgeDays?: number | null
+  titleRules?: TitleRule[]
+  arrange?: FeedArrangement
+}
+
+const OPTIONAL_VIEW_KEYS = ["watched", "duration", "maxAgeDays", "titleRules", "arrange"] as const
+
+const HASH_PREFIX = "#ytx-view="
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id))
+}
+
+export function createPreset(id: string, name: string, current: SurfaceFilter): FilterPreset {
+  const { enabled: _enabled, ...view } = current
+  return { id, name, ...view }
+}
+
+/** Whether `current` shows what the preset would apply. */
+export function presetMatches(preset: FilterPreset, current: SurfaceFilter): boolean {
+  return (
+    preset.filter.mode === current.filter.mode &&
+    sameIds(preset.filter.include, current.filter.include) &&
+    sameIds(preset.filter.exclude, current.filter.exclude) &&
+    (Object.keys(current.contentTypes) as (keyof ContentTypeFilters)[]).every(
+      (key) => preset.contentTypes[key] === current.contentTypes[key]
+    ) &&
+    OPTIONAL_VIEW_KEYS.every(
+      (key) =>
+        preset[key] === undefined || JSON.stringify(preset[key]) === JSON.stringify(current[key])
+    )
+  )
+}
+
+/**
+ * The surface filter settings a preset applies. Tags deleted since the preset
+ * was saved (or unknown ones from a shared link) are left out.
+ */
+export function getPresetFilters(preset: FilterPreset, tags: Tag[]): Partial<SurfaceFilter> {
+  const filters: Partial<SurfaceFilter> = {
+    filter: pruneTagFilter(
+      preset.filter,
+      tags.map((tag) => tag.id)
+    ),
+    contentTypes: preset.contentTypes,
+  }
+  for (const key of OPTIONAL_VIEW_KEYS) {
+    if (preset[key] !== undefined) Object.assign(filters, { [key]: preset[key] })
+  }
+  return filters
+}
+
+/** The preset id in a `#ytx-view=<id>` URL hash, if any. */
+export function getPresetIdFromHash(hash: string): string | null {
+  if (!hash.startsWith(HASH_PREFIX)) return null
+  return decodeURIComponent(hash.slice(HASH_PREFIX.length)) || null
+}
+
+export function getPresetHash(id: string): string {
+  return `${HASH_PREFIX}${encodeURIComponent(id)}`
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+import { compilePattern, getPatternError, MAX_PATTERN_LENGTH } from "./rules"
+
+describe("title patterns", () => {
+  it("accepts ordinary patterns", () => {
+    for (const pattern of [
+      "F1|MotoGP",
+      "^\\[live\\]",
+      "(part|ep)\\.? \\d+",
+      "(ab)+c*",
+      "(F1|MotoGP)+",
+      "(?:\\d\\d:)?\\d\\d",
+    ]) {
+      expect(getPatternError(pattern)).toBeNull()
+      expect(compilePattern(pattern)).toBeInstanceOf(RegExp)
+    }
+  })
+
+  it("refuses repeats nested inside repeated groups", () => {
+    for (const pattern of [
+      "(a+)+$",
+      "(\\d+\\s?)*x",
+      "((ab)*c)+",
+      "(?:x+y){2,}",
+      "(a|aa)+$",
+      "(\\w|\\d)+$",
+      "(.*a){12}$",
+      "(a|A)+$",
+      "((a|aa)b?)+$",
+    ]) {
+      expect(getPatternError(pattern)).toMatch(/too slow/)
+      expect(compilePattern(pattern)).toBeNull()
+    }
+  })
+
+  it("ignores repeat characters that are escaped or inside a class", () => {
+    expect(getPatternError("(a\\+)+")).toBeNull()
+    expect(getPatternError("([+*])+")).toBeNull()
+  })
+
+  it("refuses invalid and overlong patterns", () => {
+    expect(getPatternError("(unclosed")).toMatch(/valid/)
+    expect(getPatternError("a".repeat(MAX_PATTERN_LENGTH + 1))).toMatch(/at most/)
+  })
+})
@@ -0,0 +1,261 @@
+import type { Tag } from "./types"
+
+/**
+ * What a rule tests. Title patterns are case-insensitive regular expressions,
+ * channel patterns a plain substring of the channel's handle/URL or name.
+ */
+export type RuleCondition =
+  | { field: "title"; pattern: string }
+  | { field: "channel"; contains: string }
+  | { field: "duration"; op: "gt" | "lt"; minutes: number }
+
+export type RuleField = RuleCondition["field"]
+
+/**
+ * Title and duration rules tag matching videos while filtering. Channel rules
+ * only suggest a tag for the channel in the assign popover.
+ */
+export type TagRule = {
+  id: string
+  condition: RuleCondition
+  tagId: string
+  enabled: boolean
+}
+
+/** The parts of a video card that rules look at. */
+export type CardInfo = {
+  title: string
+  channelUrl: string | null
+  channelName: string
+  /** Null for live streams, premieres and cards without a duration badge. */
+  durationSeconds: number | null
+}
+
+/** Dry-run result of one rule against the cards on the page. */
+export type RuleMatchPreview = {
+  count: number
+  samples: string[]
+}
+
+export const RULE_FIELDS: { id: RuleField; label: string }[] = [
+  { id: "title", label: "Title matches" },
+  { id: "channel", label: "Channel contains" },
+  { id: "duration", label: "Duration" },
+]
+
+/** Longest pattern accepted; longer ones are refused rather than compiled. */
+export const MAX_PATTERN_LENGTH = 200
+
+/** Titles are cut to this length before patterns run against them. */
+const MAX_MATCH_LENGTH = 300
+
+const regexCache = new Map<string, RegExp | null>()
+
+/**
+ * Why a pattern can't be used, or null when it can. A repeated group whose
+ * contents can match the same text in more than one way, like `(a+)+`,
+ * `(a|aa)+` or `(.*a){12}`, can take exponential time on a near-miss and
+ * would freeze the page while it filters.
+ */
+export function getPatternError(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns can be at most ${MAX_PATTERN_LENGTH} characters.`
+  }
+  try {
+    new RegExp(pattern, "i")
+  } catch {
+    return "Not a valid regular expression."
+  }
+  if (hasAmbiguousRepeat(pattern)) {
+    return "Repeated groups that can match the same text in several ways, like (a+)+ or (a|aa)+, are too slow to run."
+  }
+  return null
+}
+
+type Quantifier = { length: number; repeats: boolean; optional: boolean }
+
+/** The quantifier starting at `index`, if any. Repeating means matching more than once. */
+function readQuantifier(pattern: string, index: number): Quantifier | null {
+  const char = pattern[index]
+  let quantifier: Quantifier | null = null
+  if (char === "*") quantifier = { length: 1, repeats: true, optional: true }
+  else if (char === "+") quantifier = { length: 1, repeats: true, optional: false }
+  else if (char === "?") quantifier = { length: 1, repeats: false, optional: true }
+  else {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index))
+    if (!match) return null
+    const min = Number(match[1])
+    const max =
+      match[2] === undefined ? min : match[3] ? Number(match[3]) : Number.POSITIVE_INFINITY
+    quantifier = { length: match[0].length, repeats: max > 1, optional: min === 0 }
+  }
+  // A lazy marker doesn't change what can match
+  if (pattern[index + quantifier.length] === "?") quantifier.length += 1
+  return quantifier
+}
+
+type GroupScan = {
+  /** Whether something inside repeats, or holds an ambiguous alternation. */
+  ambiguous: boolean
+  /** Lowercased first character of each branch; null when it isn't one fixed character. */
+  starts: (string | null)[]
+  atBranchStart: boolean
+}
+
+const newGroup = (): GroupScan => ({ ambiguous: false, starts: [], atBranchStart: true })
+
+function hasAmbiguousRepeat(pattern: string): boolean {
+  const groups: GroupScan[] = [newGroup()]
+  const current = () => groups[groups.length - 1]
+
+  // Record an atom and apply the quantifier after it; returns where scanning continues
+  const atom = (start: string | null, end: number): number => {
+    const group = current()
+    const quantifier = readQuantifier(pattern, end)
+    if (group.atBranchStart) {
+      group.starts.push(quantifier?.optional ? null : start)
+      group.atBranchStart = false
+    }
+    if (quantifier?.repeats) group.ambiguous = true
+    return end + (quantifier?.length ?? 0)
+  }
+  const endBranch = () => {
+    const group = current()
+    if (group.atBranchStart) group.starts.push(null)
+    group.atBranchStart = true
+  }
+
+  let i = 0
+  while (i < pattern.length) {
+    const char = pattern[i]
+    if (char === "\\") {
+      const next = pattern[i + 1] ?? ""
+      i = atom(/[a-z]/i.test(next) ? null : next, i + 2)
+    } else if (char === "[") {
+      let end = i + 1
+      while (end < pattern.length && pattern[end] !== "]") end += pattern[end] === "\\" ? 2 : 1
+      i = atom(null, end + 1)
+    } else if (char === "(") {
+      groups.push(newGroup())
+      const prefix = /^\?(:|=|!|<=|<!|<[^>]*>)/.exec(pattern.slice(i + 1))
+      i += 1 + (prefix?.[0].length ?? 0)
+    } else if (char === ")") {
+      endBranch()
+      const group = groups.pop() as GroupScan
+      const starts = group.starts
+      const overlapping =
+        starts.length > 1 &&
+        starts.some((start, index) => start === null || starts.indexOf(start) !== index)
+      const ambiguous = group.ambiguous || overlapping
+      if (ambiguous && readQuantifier(pattern, i + 1)?.repeats) return true
+      if (ambiguous) current().ambiguous = true
+      i = atom(null, i + 1)
+    } else if (char === "|") {
+      endBranch()
+      i += 1
+    } else {
+      i = atom(/[.^$]/.test(char) ? null : char.toLowerCase(), i + 1)
+    }
+  }
+  return false
+}
+
+/** Compile a title pattern once; invalid or unsafe patterns never match. */
+export function compilePattern(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    regexCache.set(pattern, getPatternError(pattern) ? null : new RegExp(pattern, "i"))
+  }
+  return regexCache.get(pattern) ?? null
+}
+
+/** Test a compiled pattern against a title, cut to a bounded length. */
+export function testPattern(regex: RegExp, title: string): boolean {
+  return regex.test(title.slice(0, MAX_MATCH_LENGTH))
+}
+
+/** Parse a duration badge such as "1:02:03" or "12:34" into seconds. */
+export function parseDuration(text: string): number | null {
+  const match = text.trim().match(/^(\d+:)?\d{1,2}:\d{2}$/)
+  if (!match) return null
+  return match[0].split(":").reduce((total, part) => total * 60 + Number(part), 0)
+}
+
+const AGE_UNIT_DAYS: Record<string, number> = {
+  second: 1 / 86400,
+  minute: 1 / 1440,
+  hour: 1 / 24,
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365,
+}
+
+/**
+ * Parse an upload age such as "3 days ago" or "Streamed 2 weeks ago" into
+ * days. Only English metadata is understood; other text gives null.
+ */
+export function parseUploadAge(text: string): number | null {
+  const match = text.match(/(\d+)\s+(second|minute|hour|day|week|month|year)s?\s+ago/i)
+  if (!match) return null
+  return Number(match[1]) * AGE_UNIT_DAYS[match[2].toLowerCase()]
+}
+
+export function isVideoRule(rule: TagRule): boolean {
+  return rule.condition.field !== "channel"
+}
+
+export function matchesRule(rule: TagRule, card: CardInfo): boolean {
+  const { condition } = rule
+  if (condition.field === "title") {
+    const regex = compilePattern(condition.pattern)
+    return regex !== null && condition.pattern !== "" && testPattern(regex, card.title)
+  }
+  if (condition.field === "channel") {
+    const needle = condition.contains.trim().toLowerCase()
+    if (!needle) return false
+    return (
+      (card.channelUrl ?? "").toLowerCase().includes(needle) ||
+      card.channelName.toLowerCase().includes(needle)
+    )
+  }
+  if (card.durationSeconds === null) return false
+  const seconds = condition.minutes * 60
+  return condition.op === "gt" ? card.durationSeconds > seconds : card.durationSeconds < seconds
+}
+
+/** Tags that enabled video rules give a card, on top of its channel's tags. */
+export function getRuleVideoTags(rules: TagRule[], card: CardInfo): string[] {
+  const ids = rules
+    .filter((rule) => rule.enabled && isVideoRule(rule) && matchesRule(rule, card))
+    .map((rule) => rule.tagId)
+  return [...new Set(ids)]
+}
+
+/** Tags that enabled channel rules suggest for a channel. */
+export function getSuggestedChannelTags(
+  rules: TagRule[],
+  channelUrl: string,
+  channelName: string
+): string[] {
+  const card: CardInfo = { title: "", channelUrl, channelName, durationSeconds: null }
+  const ids = rules
+    .filter((rule) => rule.enabled && !isVideoRule(rule) && matchesRule(rule, card))
+    .map((rule) => rule.tagId)
+  return [...new Set(ids)]
+}
+
+export function describeRule(rule: TagRule, tags: Tag[]): string {
+  const tag = tags.find((t) => t.id === rule.tagId)?.name ?? rule.tagId
+  const { condition } = rule
+  if (condition.field === "title") return `Title matches /${condition.pattern}/ → ${tag}`
+  if (condition.field === "channel") {
+    return `Channel contains “${condition.contains}” → suggest ${tag}`
+  }
+  const op = condition.op === "gt" ? ">" : "<"
+  return `Duration ${op} ${condition.minutes} min → ${tag}`
+}
+
+/** Rules pointing at `sourceId` point at `targetId` instead, e.g. after merging tags. */
+export function replaceTagInRules(rules: TagRule[], sourceId: string, targetId: string): TagRule[] {
+  return rules.map((rule) => (rule.tagId === sourceId ? { ...rule, tagId: targetId } : rule))
+}
@@ -0,0 +1,23 @@
+/** When each video first showed up in the subscriptions feed (epoch ms), by video id. */
+export type SeenVideoMap = Record<string, number>
+
+// Only recent videos are remembered; older ones have long left the feed
+const SEEN_MAX_AGE_MS = 60 * 24 * 60 * 60 * 1000
+const SEEN_MAX_ENTRIES = 1500
+
+/** Add videos not seen before, dropping the oldest entries beyond the limits. */
+export function recordSeenVideos(
+  seen: SeenVideoMap,
+  videoIds: string[],
+  now: number
+): SeenVideoMap {
+  const added = videoIds.filter((id) => !(id in seen))
+  if (added.length === 0) return seen
+  const entries = [...Object.entries(seen), ...added.map((id): [string, number] => [id, now])]
+    .filter(([, time]) => now - time < SEEN_MAX_AGE_MS)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, SEEN_MAX_ENTRIES)
+  const next: SeenVideoMap = {}
+  for (const [id, time] of entries) next[id] = time
+  return next
+}
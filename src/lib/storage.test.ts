@@ -0,0 +1,258 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { installChromeStorage, uninstallChromeStorage } from "../test/chromeStorage"
+import type { Tag } from "./types"
+
+/** A fresh copy of the module, like the storage code of another tab. */
+async function openTab() {
+  vi.resetModules()
+  return import("./storage")
+}
+
+const tag = (id: string): Tag => ({ id, name: id, color: "#123456" })
+
+afterEach(() => {
+  uninstallChromeStorage()
+  vi.useRealTimers()
+})
+
+describe("settings storage", () => {
+  it("loads what was saved", async () => {
+    installChromeStorage()
+    const tab = await openTab()
+    await tab.saveSettings({ tags: [tag("music")], panelOpen: false })
+
+    const settings = await (await openTab()).loadSettings()
+    expect(settings.tags).toEqual([tag("music")])
+    expect(settings.panelOpen).toBe(false)
+    expect(settings.rules).toEqual([])
+  })
+
+  it("splits large settings across keys that fit the item quota", async () => {
+    const { sync } = installChromeStorage({ quotaBytesPerItem: 8192 })
+    const channelTags: Record<string, string[]> = {}
+    for (let i = 0; i < 400; i += 1) channelTags[`https://www.youtube.com/@channel${i}`] = ["music"]
+
+    await (await openTab()).saveSettings({ channelTags })
+
+    expect(sync.items.ytx_channel_tags).toBeUndefined()
+    expect(sync.items.ytx_channel_tags__shards).toBeGreaterThan(1)
+    const settings = await (await openTab()).loadSettings()
+    expect(settings.channelTags).toEqual(channelTags)
+  })
+
+  it("keeps channel metadata in local storage and channel tags in sync storage", async () => {
+    const { sync, local, flush } = installChromeStorage()
+    const url = "https://www.youtube.com/@speedcrew"
+    const channels = { [url]: { name: "Speed Crew", firstSeen: 1, lastSeen: 2 } }
+    const other = await openTab()
+    await other.loadSettings()
+    const changes = vi.fn()
+    other.onSettingsChange(changes)
+
+    await (await openTab()).saveSettings({ channels, channelTags: { [url]: ["racing"] } })
+
+    expect(sync.items.ytx_channels__shards).toBeUndefined()
+    expect(local.items.ytx_channels__0).toEqual(channels)
+    expect(sync.items.ytx_channel_tags__0).toEqual({ [url]: ["racing"] })
+    await flush()
+    await vi.waitFor(() => expect(changes).toHaveBeenCalledWith({ channels }))
+    const settings = await (await openTab()).loadSettings()
+    expect(settings.channels).toEqual(channels)
+    expect(settings.channelTags).toEqual({ [url]: ["racing"] })
+  })
+
+  it("keeps a stale tab from overwriting a newer save and sends it the newer version", async () => {
+    const { sync, flush } = installChromeStorage()
+    const first = await openTab()
+    const second = await openTab()
+    await first.loadSettings()
+    await second.loadSettings()
+    const changes = vi.fn()
+    const conflicts = vi.fn()
+    second.onSettingsChange(changes)
+    second.onSettingsConflict(conflicts)
+
+    await first.saveSettings({ tags: [tag("new")] })
+    await second.saveSettings({ tags: [tag("stale")] })
+
+    expect(sync.items.ytx_tags).toEqual([tag("new")])
+    expect(conflicts).toHaveBeenCalledWith(["tags"])
+    await flush()
+    await vi.waitFor(() => expect(changes).toHaveBeenCalledWith({ tags: [tag("new")] }))
+
+    // Once caught up, the second tab's saves go through again
+    await second.saveSettings({ tags: [tag("later")] })
+    expect(sync.items.ytx_tags).toEqual([tag("later")])
+  })
+
+  it("merges a stale tab's edits to map settings into the newer version", async () => {
+    const { sync } = installChromeStorage()
+    const first = await openTab()
+    const second = await openTab()
+    const a = "https://www.youtube.com/@a"
+    const b = "https://www.youtube.com/@b"
+    await first.saveSettings({ channelTags: { [a]: ["racing"] } })
+    await first.loadSettings()
+    await second.loadSettings()
+    const changes = vi.fn()
+    second.onSettingsChange(changes)
+
+    await first.saveSettings({ channelTags: { [a]: ["racing"], [b]: ["games"] } })
+    await second.saveSettings({ channelTags: {} })
+
+    // The second tab removed a; the first added b
+    expect(sync.items.ytx_channel_tags__0).toEqual({ [b]: ["games"] })
+    expect(changes).toHaveBeenCalledWith({ channelTags: { [b]: ["games"] } })
+  })
+
+  it("merges batched edits into newer versions from another tab", async () => {
+    const { sync, flush } = installChromeStorage()
+    const first = await openTab()
+    const second = await openTab()
+    const a = "https://www.youtube.com/@a"
+    const b = "https://www.youtube.com/@b"
+    await second.loadSettings()
+    const changes = vi.fn()
+    const conflicts = vi.fn()
+    second.onSettingsChange(changes)
+    second.onSettingsConflict(conflicts)
+    const saver = second.createSettingsSaver(60_000)
+
+    saver.save({ channelTags: { [b]: ["games"] }, tags: [tag("mine")] })
+    await first.saveSettings({ channelTags: { [a]: ["racing"] }, tags: [tag("theirs")] })
+    await flush()
+    await vi.waitFor(() => expect(changes).toHaveBeenCalled())
+    await saver.flush()
+
+    const channelTags = { [a]: ["racing"], [b]: ["games"] }
+    expect(changes).toHaveBeenCalledWith({ channelTags, tags: [tag("theirs")] })
+    expect(conflicts).toHaveBeenCalledWith(["tags"])
+    expect(sync.items.ytx_channel_tags__0).toEqual(channelTags)
+    expect(sync.items.ytx_tags).toEqual([tag("theirs")])
+  })
+
+  it("follows another tab to local storage", async () => {
+    const { flush } = installChromeStorage({ quotaBytesPerItem: 200 })
+    const first = await openTab()
+    const second = await openTab()
+    await second.loadSettings()
+    const changes = vi.fn()
+    const statuses = vi.fn()
+    second.onSettingsChange(changes)
+    second.onStorageStatusChange(statuses)
+    const tags = Array.from({ length: 10 }, (_, i) => tag(`tag${i}`))
+
+    await first.saveSettings({ tags })
+    await flush()
+
+    await vi.waitFor(() => expect(changes).toHaveBeenCalledWith({ tags }))
+    expect(statuses).toHaveBeenCalledWith(expect.objectContaining({ area: "local" }))
+    expect(await second.getStorageStatus()).toMatchObject({ area: "local" })
+  })
+
+  it("does not report a tab's own saves back to it", async () => {
+    const { flush } = installChromeStorage()
+    const tab = await openTab()
+    await tab.loadSettings()
+    const changes = vi.fn()
+    tab.onSettingsChange(changes)
+
+    await tab.saveSettings({ tags: [tag("mine")] })
+    await flush()
+    await tab.saveSettings({})
+
+    expect(changes).not.toHaveBeenCalled()
+  })
+
+  it("moves to local storage when sync storage is full", async () => {
+    const { sync, local } = installChromeStorage({ quotaBytesPerItem: 200 })
+    const tab = await openTab()
+    const statuses = vi.fn()
+    tab.onStorageStatusChange(statuses)
+    const tags = Array.from({ length: 10 }, (_, i) => tag(`tag${i}`))
+
+    await tab.saveSettings({ tags })
+
+    expect(sync.items.ytx_tags).toBeUndefined()
+    expect(local.items.ytx_tags).toEqual(tags)
+    expect(statuses).toHaveBeenCalledWith(expect.objectContaining({ area: "local" }))
+    expect(await tab.getStorageStatus()).toMatchObject({ area: "local" })
+    expect((await (await openTab()).loadSettings()).tags).toEqual(tags)
+  })
+
+  it("retries rate-limited writes instead of leaving sync storage", async () => {
+    vi.useFakeTimers()
+    const { sync } = installChromeStorage()
+    const tab = await openTab()
+    const statuses = vi.fn()
+    tab.onStorageStatusChange(statuses)
+    vi.spyOn(sync, "set").mockRejectedValueOnce(
+      new Error("MAX_WRITE_OPERATIONS_PER_MINUTE quota exceeded")
+    )
+
+    await tab.saveSettings({ tags: [tag("music")] })
+    // Other saves don't wait for the retry
+    await tab.saveSettings({ panelOpen: false })
+    expect(sync.items.ytx_panel_open).toBe(false)
+    expect(sync.items.ytx_tags).toBeUndefined()
+
+    await vi.runAllTimersAsync()
+    await tab.saveSettings({})
+
+    expect(sync.items.ytx_tags).toEqual([tag("music")])
+    expect(statuses).not.toHaveBeenCalled()
+    expect(await tab.getStorageStatus()).toEqual({ area: "sync" })
+  })
+
+  it("reports a failed save and keeps saving after it", async () => {
+    const { sync } = installChromeStorage()
+    const tab = await openTab()
+    const statuses = vi.fn()
+    tab.onStorageStatusChange(statuses)
+    vi.spyOn(sync, "set").mockRejectedValueOnce(new Error("IO error"))
+
+    await expect(tab.saveSettings({ tags: [tag("lost")] })).rejects.toThrow("IO error")
+    await vi.waitFor(() =>
+      expect(statuses).toHaveBeenLastCalledWith({ area: "sync", saveError: "IO error" })
+    )
+
+    await tab.saveSettings({ tags: [tag("music")] })
+    expect(sync.items.ytx_tags).toEqual([tag("music")])
+    await vi.waitFor(() => expect(statuses).toHaveBeenLastCalledWith({ area: "sync" }))
+  })
+
+  it("writes batched saves together", async () => {
+    vi.useFakeTimers()
+    const { sync } = installChromeStorage()
+    const tab = await openTab()
+    const set = vi.spyOn(sync, "set")
+    const saver = tab.createSettingsSaver(1000)
+
+    for (const color of ["#111111", "#222222", "#333333"]) {
+      saver.save({ tags: [{ ...tag("music"), color }] })
+    }
+    saver.save({ panelOpen: false })
+    await vi.advanceTimersByTimeAsync(1000)
+    await saver.flush()
+
+    expect(set).toHaveBeenCalledTimes(1)
+    expect(sync.items.ytx_tags).toEqual([{ ...tag("music"), color: "#333333" }])
+    expect(sync.items.ytx_panel_open).toBe(false)
+  })
+})
+
+describe("seen videos", () => {
+  it("are kept in local storage and merged with what other tabs added", async () => {
+    const { sync, local } = installChromeStorage()
+    const first = await openTab()
+    const second = await openTab()
+
+    await first.addSeenVideos(["aaa"], 1000)
+    const seen = await second.addSeenVideos(["bbb"], 2000)
+
+    expect(seen).toEqual({ aaa: 1000, bbb: 2000 })
+    expect(local.items.ytx_seen_videos).toEqual(seen)
+    expect(Object.keys(sync.items)).toEqual([])
+    expect(await (await openTab()).loadSeenVideos()).toEqual(seen)
+  })
+})
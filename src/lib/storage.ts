@@ -0,0 +1,751 @@
+import {
+  type ChannelAliasMap,
+  type ChannelMetaMap,
+  type ChannelTagMap,
+  migrateChannelMeta,
+  migrateChannelTags,
+} from "./channels"
+import { parseTagFilter } from "./filters"
+import { DEFAULT_HOTKEYS, type HotkeyMap } from "./hotkeys"
+import type { FilterPreset } from "./presets"
+import type { TagRule } from "./rules"
+import { recordSeenVideos, type SeenVideoMap } from "./seen"
+import {
+  DEFAULT_CONTENT_TYPES,
+  DEFAULT_SURFACE_FILTERS,
+  parseSurfaceFilters,
+  type SurfaceFilters,
+} from "./surfaces"
+import { breakTagCycles } from "./tags"
+import type { ContentTypeFilters, Tag } from "./types"
+import type { VideoTagMap } from "./videos"
+
+// =============================================================================
+// Settings
+// =============================================================================
+
+export type Settings = {
+  tags: Tag[]
+  channelTags: ChannelTagMap
+  videoTags: VideoTagMap
+  aliases: ChannelAliasMap
+  channels: ChannelMetaMap
+  surfaces: SurfaceFilters
+  panelOpen: boolean
+  presets: FilterPreset[]
+  rules: TagRule[]
+  hotkeys: HotkeyMap
+}
+
+export const DEFAULT_TAGS: Tag[] = [
+  { id: "racing", name: "Racing", color: "#7a5cff" },
+  { id: "games", name: "Games", color: "#30c4ff" },
+]
+
+export const DEFAULT_SETTINGS: Settings = {
+  tags: DEFAULT_TAGS,
+  channelTags: {},
+  videoTags: {},
+  aliases: {},
+  channels: {},
+  surfaces: DEFAULT_SURFACE_FILTERS,
+  panelOpen: true,
+  presets: [],
+  rules: [],
+  hotkeys: DEFAULT_HOTKEYS,
+}
+
+/** Storage key of each setting. These names are also used in backup files. */
+export const SETTING_KEYS: { [K in keyof Settings]: string } = {
+  tags: "ytx_tags",
+  channelTags: "ytx_channel_tags",
+  videoTags: "ytx_video_tags",
+  aliases: "ytx_channel_aliases",
+  channels: "ytx_channels",
+  surfaces: "ytx_surface_filters",
+  panelOpen: "ytx_panel_open",
+  presets: "ytx_presets",
+  rules: "ytx_rules",
+  hotkeys: "ytx_hotkeys",
+}
+
+/**
+ * Keys of the subscriptions feed filter from before filters were kept per
+ * surface. Still read from storage and old backups when no surface filters exist.
+ */
+export const LEGACY_FILTER_KEYS = {
+  activeFilter: "ytx_active_filters",
+  contentTypes: "ytx_content_types",
+}
+
+/** Settings that grow with the number of channels or videos and are split across keys. */
+const SHARDED_SETTINGS: (keyof Settings)[] = ["channelTags", "videoTags", "aliases", "channels"]
+
+/**
+ * Settings kept in local storage whichever area holds the rest. Channel
+ * metadata is refreshed on every scanned page and would crowd the tags out of
+ * sync storage; each browser learns it again while browsing.
+ */
+const LOCAL_SETTINGS: (keyof Settings)[] = ["channels"]
+
+const SETTING_NAMES = Object.keys(SETTING_KEYS) as (keyof Settings)[]
+
+/** Settings stored in the area the storage status names. */
+const SHARED_SETTINGS = SETTING_NAMES.filter((name) => !LOCAL_SETTINGS.includes(name))
+
+const FALLBACK_KEY = "ytx_storage_fallback"
+
+/** Build settings from a record keyed by storage key, ignoring missing keys. */
+export function settingsFromRecord(record: Record<string, unknown>): Partial<Settings> {
+  const settings: Partial<Settings> = {}
+  const value = <K extends keyof Settings>(key: K) => record[SETTING_KEYS[key]] as Settings[K]
+
+  if (record[SETTING_KEYS.tags] !== undefined) settings.tags = breakTagCycles(value("tags"))
+  if (record[SETTING_KEYS.aliases] !== undefined) settings.aliases = value("aliases")
+  if (record[SETTING_KEYS.channelTags] !== undefined) {
+    // Entries saved before the alias registry existed are keyed by whatever
+    // URL form was clicked; fold them onto canonical keys
+    settings.channelTags = migrateChannelTags(value("channelTags"), settings.aliases ?? {})
+  }
+  if (record[SETTING_KEYS.videoTags] !== undefined) settings.videoTags = value("videoTags")
+  if (record[SETTING_KEYS.channels] !== undefined) {
+    settings.channels = migrateChannelMeta(value("channels"), settings.aliases ?? {})
+  }
+  if (record[SETTING_KEYS.surfaces] !== undefined) {
+    settings.surfaces = parseSurfaceFilters(record[SETTING_KEYS.surfaces])
+  } else if (Object.values(LEGACY_FILTER_KEYS).some((key) => record[key] !== undefined)) {
+    settings.surfaces = {
+      ...DEFAULT_SURFACE_FILTERS,
+      subscriptions: {
+        ...DEFAULT_SURFACE_FILTERS.subscriptions,
+        enabled: true,
+        filter: parseTagFilter(record[LEGACY_FILTER_KEYS.activeFilter]),
+        contentTypes: {
+          ...DEFAULT_CONTENT_TYPES,
+          ...(record[LEGACY_FILTER_KEYS.contentTypes] as ContentTypeFilters | undefined),
+        },
+      },
+    }
+  }
+  if (record[SETTING_KEYS.panelOpen] !== undefined) settings.panelOpen = value("panelOpen")
+  if (record[SETTING_KEYS.rules] !== undefined) settings.rules = value("rules")
+  if (record[SETTING_KEYS.hotkeys] !== undefined) {
+    // Actions added since the shortcuts were saved get their defaults
+    settings.hotkeys = { ...DEFAULT_HOTKEYS, ...value("hotkeys") }
+  }
+  if (record[SETTING_KEYS.presets] !== undefined) {
+    settings.presets = value("presets").map((preset) => ({
+      ...preset,
+      filter: parseTagFilter(preset.filter),
+      contentTypes: { ...DEFAULT_CONTENT_TYPES, ...preset.contentTypes },
+    }))
+  }
+  return settings
+}
+
+/** Inverse of `settingsFromRecord`. */
+export function settingsToRecord(settings: Partial<Settings>): Record<string, unknown> {
+  const record: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(settings)) {
+    record[SETTING_KEYS[key as keyof Settings]] = value
+  }
+  return record
+}
+
+// =============================================================================
+// Storage Areas
+// =============================================================================
+
+type AreaName = "sync" | "local"
+
+export type StorageStatus = {
+  area: AreaName | null
+  /** Set when sync storage rejected a write and local storage took over. */
+  fallbackReason?: string
+  /** Why the latest save failed; cleared by the next one that goes through. */
+  saveError?: string
+}
+
+type StatusListener = (status: StorageStatus) => void
+
+const statusListeners = new Set<StatusListener>()
+let status: Promise<StorageStatus> | null = null
+
+function chromeStorage() {
+  return typeof chrome !== "undefined" ? chrome.storage : undefined
+}
+
+function getArea(name: AreaName): chrome.storage.StorageArea | null {
+  return chromeStorage()?.[name] ?? null
+}
+
+/** Where a setting lives while the other settings live in `area`. */
+function areaFor(name: keyof Settings, area: AreaName): AreaName {
+  return LOCAL_SETTINGS.includes(name) ? "local" : area
+}
+
+async function detectStatus(): Promise<StorageStatus> {
+  const local = getArea("local")
+  const sync = getArea("sync")
+  if (!sync && !local) return { area: null }
+  if (!sync) return { area: "local" }
+  const flag = local ? await local.get(FALLBACK_KEY) : {}
+  const fallback = flag[FALLBACK_KEY] as { reason: string } | undefined
+  return fallback ? { area: "local", fallbackReason: fallback.reason } : { area: "sync" }
+}
+
+function resolveStatus(): Promise<StorageStatus> {
+  status ??= detectStatus()
+  return status
+}
+
+function setStatus(next: StorageStatus): void {
+  status = Promise.resolve(next)
+  for (const listener of statusListeners) listener(next)
+}
+
+export function getStorageStatus(): Promise<StorageStatus> {
+  return resolveStatus()
+}
+
+/** Subscribe to area changes, e.g. to warn when sync storage is full. */
+export function onStorageStatusChange(listener: StatusListener): () => void {
+  statusListeners.add(listener)
+  // Other tabs announce their switches through storage
+  watchStorage()
+  return () => statusListeners.delete(listener)
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Chrome reports quota problems as plain errors; match on their message. Only
+ * running out of space counts here: it won't pass until something is removed.
+ */
+export function isQuotaError(error: unknown): boolean {
+  return /QUOTA_BYTES|MAX_ITEMS/.test(errorMessage(error))
+}
+
+/** Sync storage also limits writes per minute and per hour; these pass with time. */
+export function isRateLimitError(error: unknown): boolean {
+  return /MAX_WRITE_OPERATIONS/.test(errorMessage(error))
+}
+
+// =============================================================================
+// Sharding
+// =============================================================================
+
+/** chrome.storage.sync allows 8192 bytes per item; leave room for the key. */
+const SHARD_BYTES = 7000
+
+function shardCountKey(key: string): string {
+  return `${key}__shards`
+}
+
+function shardKey(key: string, index: number): string {
+  return `${key}__${index}`
+}
+
+function byteLength(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length
+}
+
+/** Split a record into chunks that each stay below the per-item quota. */
+export function shardRecord<T>(record: Record<string, T>): Record<string, T>[] {
+  const shards: Record<string, T>[] = []
+  let current: Record<string, T> = {}
+  let size = 2
+  for (const [key, value] of Object.entries(record)) {
+    const entrySize = byteLength(key) + byteLength(value) + 2
+    if (size + entrySize > SHARD_BYTES && size > 2) {
+      shards.push(current)
+      current = {}
+      size = 2
+    }
+    current[key] = value
+    size += entrySize
+  }
+  if (size > 2 || !shards.length) shards.push(current)
+  return shards
+}
+
+/** Read `names` with their write times, and the legacy filter keys when asked. */
+async function readRaw(
+  area: chrome.storage.StorageArea,
+  names: (keyof Settings)[],
+  withLegacy = false
+): Promise<Record<string, unknown>> {
+  const settingKeys = names.map((name) => SETTING_KEYS[name])
+  const keys = [
+    ...settingKeys,
+    ...settingKeys.map(stampKey),
+    ...(withLegacy ? Object.values(LEGACY_FILTER_KEYS) : []),
+  ]
+  const shardedKeys = SHARDED_SETTINGS.filter((name) => names.includes(name)).map(
+    (name) => SETTING_KEYS[name]
+  )
+  const result = await area.get([...keys, ...shardedKeys.map(shardCountKey)])
+
+  for (const key of shardedKeys) {
+    const count = result[shardCountKey(key)] as number | undefined
+    // The count belongs to this area's layout; writeRaw works out its own
+    delete result[shardCountKey(key)]
+    // Without a shard count the value is still stored under a single key
+    if (count === undefined) continue
+    const shards = await area.get(Array.from({ length: count }, (_, i) => shardKey(key, i)))
+    result[key] = Object.assign({}, ...Object.values(shards))
+  }
+  return result
+}
+
+async function writeRaw(
+  area: chrome.storage.StorageArea,
+  record: Record<string, unknown>
+): Promise<void> {
+  const items: Record<string, unknown> = {}
+  const stale: string[] = []
+  const shardedKeys = SHARDED_SETTINGS.map((name) => SETTING_KEYS[name])
+
+  for (const [key, value] of Object.entries(record)) {
+    if (!shardedKeys.includes(key)) {
+      items[key] = value
+      continue
+    }
+    const countKey = shardCountKey(key)
+    const previous = ((await area.get(countKey))[countKey] as number | undefined) ?? 0
+    const shards = shardRecord(value as Record<string, unknown>)
+    shards.forEach((shard, i) => {
+      items[shardKey(key, i)] = shard
+    })
+    items[countKey] = shards.length
+    for (let i = shards.length; i < previous; i += 1) stale.push(shardKey(key, i))
+    stale.push(key)
+  }
+
+  await area.set(items)
+  if (stale.length) await area.remove(stale)
+}
+
+// =============================================================================
+// Cross-Tab Sync
+// =============================================================================
+
+// Every tab holds its own copy of the settings and saves a setting whenever its
+// copy changes. Each setting is stored with the time of its last write; a tab
+// adopts newer versions as they arrive and never writes over a version it
+// hasn't seen, so the last writer wins without stale tabs reverting it. A stale
+// tab's edits to map settings are merged into the newer version key by key;
+// edits to other settings are dropped and reported to conflict listeners. The
+// same goes for edits still waiting in a settings saver when a newer version
+// arrives.
+
+type ChangeListener = (patch: Partial<Settings>) => void
+type ConflictListener = (dropped: (keyof Settings)[]) => void
+
+const changeListeners = new Set<ChangeListener>()
+const conflictListeners = new Set<ConflictListener>()
+/** Edits each settings saver has batched but not written yet. */
+const batches = new Set<{ pending: Partial<Settings> }>()
+let watchingChanges = false
+
+/** Settings keyed by channel, video or action, whose edits combine key by key. */
+const MERGED_SETTINGS: (keyof Settings)[] = [
+  "channelTags",
+  "videoTags",
+  "aliases",
+  "channels",
+  "hotkeys",
+]
+
+/** Write time of the stored version each setting in this tab is based on. */
+const knownStamps: Partial<Record<keyof Settings, number>> = {}
+/** Serialized value of that version, to skip saving settings that didn't change. */
+const knownValues: Partial<Record<keyof Settings, string>> = {}
+
+function stampKey(key: string): string {
+  return `${key}__at`
+}
+
+function getStamp(record: Record<string, unknown>, name: keyof Settings): number {
+  return (record[stampKey(SETTING_KEYS[name])] as number | undefined) ?? 0
+}
+
+function remember(settings: Partial<Settings>, stamps: Record<string, unknown> | number): void {
+  for (const [name, value] of Object.entries(settings) as [keyof Settings, unknown][]) {
+    knownStamps[name] = typeof stamps === "number" ? stamps : getStamp(stamps, name)
+    knownValues[name] = JSON.stringify(value)
+  }
+}
+
+/** Apply the keys `mine` changed relative to `base` onto `theirs`. */
+function mergeEdits(
+  base: Record<string, unknown>,
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>
+): Record<string, unknown> {
+  const merged = { ...theirs }
+  for (const key of new Set([...Object.keys(base), ...Object.keys(mine)])) {
+    if (JSON.stringify(mine[key]) === JSON.stringify(base[key])) continue
+    if (key in mine) merged[key] = mine[key]
+    else delete merged[key]
+  }
+  return merged
+}
+
+function pickSettings(settings: Partial<Settings>, names: (keyof Settings)[]): Partial<Settings> {
+  const picked: Record<string, unknown> = {}
+  for (const name of names) {
+    if (settings[name] !== undefined) picked[name] = settings[name]
+  }
+  return picked as Partial<Settings>
+}
+
+/**
+ * Fold edits that savers haven't written yet into newer versions from another
+ * tab, so neither side's edits are lost. Returns the versions to show and the
+ * settings whose batched edits had to be dropped.
+ */
+function rebaseBatches(patch: Partial<Settings>): {
+  rebased: Partial<Settings>
+  dropped: (keyof Settings)[]
+} {
+  const rebased: Record<string, unknown> = { ...patch }
+  const dropped: (keyof Settings)[] = []
+  for (const batch of batches) {
+    for (const name of Object.keys(patch) as (keyof Settings)[]) {
+      const mine = batch.pending[name]
+      if (mine === undefined) continue
+      if (MERGED_SETTINGS.includes(name)) {
+        const base = knownValues[name] ? JSON.parse(knownValues[name] as string) : {}
+        rebased[name] = mergeEdits(base, { ...(mine as object) }, { ...(rebased[name] as object) })
+        Object.assign(batch.pending, { [name]: rebased[name] })
+      } else {
+        delete batch.pending[name]
+        if (JSON.stringify(mine) !== JSON.stringify(patch[name])) dropped.push(name)
+      }
+    }
+  }
+  return { rebased: rebased as Partial<Settings>, dropped }
+}
+
+/**
+ * Subscribe to settings saved by other tabs (or the options page). Listeners
+ * get only the settings that changed, already parsed like `loadSettings`, with
+ * edits a settings saver hasn't written yet merged in.
+ */
+export function onSettingsChange(listener: ChangeListener): () => void {
+  changeListeners.add(listener)
+  watchStorage()
+  return () => changeListeners.delete(listener)
+}
+
+/**
+ * Subscribe to edits this tab saved or batched too late: another tab had
+ * already saved a newer version of the setting, which replaces the edit via
+ * `onSettingsChange`.
+ */
+export function onSettingsConflict(listener: ConflictListener): () => void {
+  conflictListeners.add(listener)
+  return () => conflictListeners.delete(listener)
+}
+
+function watchStorage(): void {
+  const storage = chromeStorage()
+  if (watchingChanges || !storage?.onChanged) return
+  watchingChanges = true
+  storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && FALLBACK_KEY in changes) {
+      const flag = changes[FALLBACK_KEY].newValue as { reason: string } | undefined
+      enqueue(() => followStatus(flag))
+    }
+    // This tab's own writes come back here too, with stamps it already knows
+    const names = SETTING_NAMES.filter((name) => {
+      const at = changes[stampKey(SETTING_KEYS[name])]?.newValue as number | undefined
+      return at !== undefined && at > (knownStamps[name] ?? 0)
+    })
+    if (!names.length) return
+    enqueue(() => readChanges(areaName, names))
+  })
+}
+
+/** Switch areas along with another tab that fell back to local storage or left it. */
+async function followStatus(flag: { reason: string } | undefined): Promise<void> {
+  const next: StorageStatus = flag
+    ? { area: "local", fallbackReason: flag.reason }
+    : { area: "sync" }
+  if ((await resolveStatus()).area === next.area) return
+  setStatus(next)
+  // The copied settings arrived before the switch and were ignored as belonging elsewhere
+  await readChanges(next.area as AreaName, SHARED_SETTINGS)
+}
+
+async function readChanges(areaName: string, changed: (keyof Settings)[]): Promise<void> {
+  const { area } = await resolveStatus()
+  const names = changed.filter((name) => area && areaFor(name, area) === areaName)
+  const storage = names.length ? getArea(areaName as AreaName) : null
+  if (!storage) return
+
+  try {
+    const record = await readRaw(storage, names)
+    // Writes queued ahead of this read may have replaced some of the changes
+    const fresh = names.filter((name) => getStamp(record, name) > (knownStamps[name] ?? 0))
+    const patch = pickSettings(settingsFromRecord(record), fresh)
+    if (!Object.keys(patch).length) return
+    // Merged against the version the batched edits were based on
+    const { rebased, dropped } = rebaseBatches(patch)
+    remember(patch, record)
+    if (dropped.length) for (const listener of conflictListeners) listener(dropped)
+    for (const listener of changeListeners) listener(rebased)
+  } catch (error) {
+    console.warn("[youtube-lens] Failed to read changed settings", error)
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+let writeQueue: Promise<void> = Promise.resolve()
+
+/** Run `task` after everything queued before it; a failed task doesn't hold up the rest. */
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const attempt = writeQueue.then(task)
+  writeQueue = attempt.then(
+    () => undefined,
+    () => undefined
+  )
+  return attempt
+}
+
+export async function loadSettings(): Promise<Settings> {
+  const { area } = await resolveStatus()
+  const storage = area ? getArea(area) : null
+  if (!storage) return DEFAULT_SETTINGS
+  const local = getArea("local")
+  const record =
+    area === "local" || !local
+      ? await readRaw(storage, SETTING_NAMES, true)
+      : {
+          ...(await readRaw(storage, SHARED_SETTINGS, true)),
+          ...(await readRaw(local, LOCAL_SETTINGS)),
+        }
+  const settings = { ...DEFAULT_SETTINGS, ...settingsFromRecord(record) }
+  remember(settings, record)
+  return settings
+}
+
+/**
+ * Persist some settings. Writes are queued so shard bookkeeping never
+ * interleaves. Settings another tab has saved since this tab last read them
+ * are merged when they are maps and otherwise left alone; either way the
+ * result reaches this tab via `onSettingsChange`.
+ * Rate-limited writes are retried after a while, without holding up other
+ * saves. When sync storage is out of space, all settings move to local storage
+ * and status listeners are notified; so are they when a save fails otherwise.
+ * Settings in `LOCAL_SETTINGS` always go to local storage.
+ */
+export function saveSettings(patch: Partial<Settings>): Promise<void> {
+  const attempt = enqueue(() => writeSettings(patch))
+  attempt.then(
+    () => reportSaveError(null),
+    (error) => reportSaveError(error)
+  )
+  return attempt
+}
+
+/** Show the latest save failure in the storage status, or clear it once a save went through. */
+async function reportSaveError(error: unknown): Promise<void> {
+  if (error !== null) console.warn("[youtube-lens] Failed to save settings", error)
+  const { saveError: previous, ...current } = await resolveStatus()
+  const saveError = error === null ? undefined : errorMessage(error)
+  if (saveError === previous) return
+  setStatus(saveError ? { ...current, saveError } : current)
+}
+
+/** Waits before each retry of a rate-limited write; the last one covers the hourly limit. */
+const RATE_LIMIT_DELAYS_MS = [2_000, 10_000, 60_000, 5 * 60_000]
+
+/** Settings whose write sync storage rate-limited, saved again once the wait is over. */
+let rateLimited: Partial<Settings> = {}
+let rateLimitRetries = 0
+let rateLimitTimer: ReturnType<typeof setTimeout> | undefined
+
+function retryLater(patch: Partial<Settings>): void {
+  rateLimited = { ...rateLimited, ...patch }
+  if (rateLimitTimer !== undefined) return
+  const delay = RATE_LIMIT_DELAYS_MS[Math.min(rateLimitRetries, RATE_LIMIT_DELAYS_MS.length - 1)]
+  rateLimitRetries += 1
+  rateLimitTimer = setTimeout(() => {
+    rateLimitTimer = undefined
+    const retry = rateLimited
+    rateLimited = {}
+    // Failures show in the storage status
+    saveSettings(retry).catch(() => undefined)
+  }, delay)
+}
+
+async function writeSettings(patch: Partial<Settings>): Promise<void> {
+  // A newer value replaces one waiting for a retry
+  for (const name of Object.keys(patch)) delete rateLimited[name as keyof Settings]
+  const { area } = await resolveStatus()
+  if (!area) return
+
+  const changed = (Object.keys(patch) as (keyof Settings)[]).filter(
+    (name) => JSON.stringify(patch[name]) !== knownValues[name]
+  )
+  const shared = changed.filter((name) => areaFor(name, area) === area)
+  const local = changed.filter((name) => areaFor(name, area) !== area)
+  if (shared.length) await writeToArea(area, pickSettings(patch, shared), shared)
+  if (local.length) await writeToArea("local", pickSettings(patch, local), local)
+}
+
+async function writeToArea(
+  area: AreaName,
+  patch: Partial<Settings>,
+  changed: (keyof Settings)[]
+): Promise<void> {
+  const storage = getArea(area)
+  if (!storage) return
+  const stored = await storage.get(changed.map((name) => stampKey(SETTING_KEYS[name])))
+  const upToDate = changed.filter((name) => getStamp(stored, name) <= (knownStamps[name] ?? 0))
+  const stale = changed.filter((name) => !upToDate.includes(name))
+  const merged = stale.filter((name) => MERGED_SETTINGS.includes(name))
+  const dropped = stale.filter((name) => !merged.includes(name))
+  if (dropped.length) for (const listener of conflictListeners) listener(dropped)
+
+  const accepted = pickSettings(patch, upToDate)
+  if (merged.length) {
+    const theirs = settingsFromRecord(await readRaw(storage, merged)) as Record<string, object>
+    const mine = patch as Record<string, object>
+    for (const name of merged) {
+      const base = knownValues[name] ? JSON.parse(knownValues[name] as string) : {}
+      Object.assign(accepted, {
+        [name]: mergeEdits(base, { ...mine[name] }, { ...theirs[name] }),
+      })
+    }
+  }
+  const written = [...upToDate, ...merged]
+  if (!written.length) return
+
+  const at = Math.max(Date.now(), ...written.map((name) => getStamp(stored, name) + 1))
+  const record = settingsToRecord(accepted)
+  for (const name of written) record[stampKey(SETTING_KEYS[name])] = at
+
+  try {
+    await writeRaw(storage, record)
+    if (area === "sync") rateLimitRetries = 0
+  } catch (error) {
+    if (area === "sync" && isRateLimitError(error)) {
+      retryLater(accepted)
+      return
+    }
+    if (area !== "sync" || !isQuotaError(error)) throw error
+    await fallBackToLocal(storage, record, error)
+  }
+  remember(accepted, at)
+  // The merged versions hold the other tab's edits, which this tab hasn't seen yet
+  if (merged.length) {
+    const patch = pickSettings(accepted, merged)
+    for (const listener of changeListeners) listener(patch)
+  }
+}
+
+async function fallBackToLocal(
+  sync: chrome.storage.StorageArea,
+  record: Record<string, unknown>,
+  error: unknown
+): Promise<void> {
+  const local = getArea("local")
+  if (!local) return
+  const reason = errorMessage(error)
+  const existing = await readRaw(sync, SHARED_SETTINGS, true)
+  await writeRaw(local, { ...existing, ...record })
+  await local.set({ [FALLBACK_KEY]: { reason, at: Date.now() } })
+  setStatus({ area: "local", fallbackReason: reason })
+}
+
+type SettingsSaver = {
+  /** Queue a patch; patches queued within the delay are written together. */
+  save: (patch: Partial<Settings>) => void
+  /** Write whatever is queued right away. */
+  flush: () => Promise<void>
+}
+
+/**
+ * Batch saves from UIs that save on every state change, so dragging a color
+ * or typing a number doesn't spend a sync write per event.
+ */
+export function createSettingsSaver(delayMs: number): SettingsSaver {
+  const batch: { pending: Partial<Settings> } = { pending: {} }
+  let timer: ReturnType<typeof setTimeout> | undefined
+  batches.add(batch)
+
+  const flush = () => {
+    clearTimeout(timer)
+    timer = undefined
+    const patch = batch.pending
+    batch.pending = {}
+    // Failures show in the storage status
+    return Object.keys(patch).length ? saveSettings(patch).catch(() => undefined) : writeQueue
+  }
+  const save = (patch: Partial<Settings>) => {
+    batch.pending = { ...batch.pending, ...patch }
+    // The first patch starts the clock, so a steady stream still gets written
+    timer ??= setTimeout(flush, delayMs)
+  }
+  return { save, flush }
+}
+
+/**
+ * Copy local settings back to sync storage and use it again. Returns false
+ * (and stays on local storage) when they still do not fit.
+ */
+export function retrySyncStorage(): Promise<boolean> {
+  return enqueue(async () => {
+    const sync = getArea("sync")
+    const local = getArea("local")
+    if (!sync || !local) return false
+    try {
+      await writeRaw(sync, await readRaw(local, SHARED_SETTINGS, true))
+    } catch (error) {
+      if (isQuotaError(error)) return false
+      throw error
+    }
+    await local.remove(FALLBACK_KEY)
+    setStatus({ area: "sync" })
+    return true
+  })
+}
+
+// =============================================================================
+// Seen Videos
+// =============================================================================
+
+/**
+ * The subscriptions feed's seen set. It changes on every visit and only
+ * matters to the browser that saw the feed, so it stays out of the settings:
+ * it lives in local storage and isn't sent to other tabs or into backups.
+ */
+const SEEN_VIDEOS_KEY = "ytx_seen_videos"
+
+export async function loadSeenVideos(): Promise<SeenVideoMap> {
+  const local = getArea("local")
+  if (!local) return {}
+  return ((await local.get(SEEN_VIDEOS_KEY))[SEEN_VIDEOS_KEY] ?? {}) as SeenVideoMap
+}
+
+/**
+ * Add videos to the stored seen set and resolve with the result, which also
+ * holds what other tabs have added since this tab last read it.
+ */
+export function addSeenVideos(videoIds: string[], now: number): Promise<SeenVideoMap> {
+  return enqueue(async () => {
+    const local = getArea("local")
+    const stored = await loadSeenVideos()
+    const next = recordSeenVideos(stored, videoIds, now)
+    if (local && next !== stored) await local.set({ [SEEN_VIDEOS_KEY]: next })
+    return next
+  })
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+import { createTagOpml, parseCsv, parseTakeoutCsv } from "./subscriptions"
+import type { Tag } from "./types"
+
+const RACING = "UCracing000000000000000a"
+const GAMES = "UCgames00000000000000000"
+
+describe("parseCsv", () => {
+  it("keeps quoted commas, quotes and line breaks", () => {
+    expect(parseCsv(`\uFEFFa,"b, c","say ""hi"""\r\n"multi\nline",x\n\n`)).toEqual([
+      ["a", "b, c", 'say "hi"'],
+      ["multi\nline", "x"],
+    ])
+  })
+})
+
+describe("parseTakeoutCsv", () => {
+  it("reads channels from the Takeout columns", () => {
+    const result = parseTakeoutCsv(
+      [
+        "Channel Id,Channel Url,Channel Title",
+        `${RACING},http://www.youtube.com/channel/${RACING},"Speed Crew, Official"`,
+        `,http://www.youtube.com/channel/${GAMES},Pixel Plays`,
+        ",,Nobody",
+      ].join("\n")
+    )
+
+    expect(result).toMatchObject({
+      ok: true,
+      backup: {
+        source: "takeout",
+        settings: {
+          channels: {
+            [`https://www.youtube.com/channel/${RACING}`]: { name: "Speed Crew, Official" },
+            [`https://www.youtube.com/channel/${GAMES}`]: { name: "Pixel Plays" },
+          },
+        },
+        warnings: ["1 row(s) without a channel id were skipped."],
+      },
+    })
+  })
+
+  it("falls back to the column order for a localized header", () => {
+    const result = parseTakeoutCsv(`ID de la chaîne,URL,Titre\n${GAMES},,Pixel Plays\n`)
+    expect(result.ok && result.backup.settings.channels).toEqual({
+      [`https://www.youtube.com/channel/${GAMES}`]: { name: "Pixel Plays" },
+    })
+  })
+
+  it("rejects files without subscriptions", () => {
+    expect(parseTakeoutCsv("Channel Id,Channel Url,Channel Title\n")).toEqual({
+      ok: false,
+      error: "The file does not contain any subscriptions.",
+    })
+  })
+})
+
+describe("createTagOpml", () => {
+  const tags: Tag[] = [
+    { id: "motor", name: "Motor & Cars", color: "#123456" },
+    { id: "f1", name: "F1", color: "#123456", parentId: "motor" },
+    { id: "games", name: "Games", color: "#123456" },
+  ]
+
+  it("lists the feeds of the tag and its nested tags", () => {
+    const { opml, count, skipped } = createTagOpml(
+      {
+        tags,
+        channelTags: {
+          [`https://www.youtube.com/channel/${RACING}`]: ["f1"],
+          [`https://www.youtube.com/channel/${GAMES}`]: ["games"],
+          "https://www.youtube.com/@lapcounter": ["motor"],
+        },
+        channels: { [`https://www.youtube.com/channel/${RACING}`]: { name: "Speed <Crew>" } },
+      },
+      "motor",
+      new Date(Date.UTC(2026, 0, 2))
+    )
+
+    expect({ count, skipped }).toEqual({ count: 1, skipped: 1 })
+    expect(opml).toContain("<title>YouTube Lens: Motor &amp; Cars</title>")
+    expect(opml).toContain("<dateCreated>Fri, 02 Jan 2026 00:00:00 GMT</dateCreated>")
+    expect(opml).toContain(
+      `<outline type="rss" text="Speed &lt;Crew&gt;" title="Speed &lt;Crew&gt;" xmlUrl="https://www.youtube.com/feeds/videos.xml?channel_id=${RACING}" htmlUrl="https://www.youtube.com/channel/${RACING}"/>`
+    )
+    expect(opml).not.toContain(GAMES)
+    expect(new DOMParser().parseFromString(opml, "text/xml").querySelector("parsererror")).toBe(
+      null
+    )
+  })
+})
@@ -0,0 +1,177 @@
+import type { BackupParseResult } from "./backup"
+import { type ChannelMetaMap, canonicalChannelUrl, getChannelId } from "./channels"
+import type { Settings } from "./storage"
+import { getTagWithDescendants } from "./tags"
+
+// =============================================================================
+// Google Takeout Import
+// =============================================================================
+
+const CHANNEL_ID = /^UC[\w-]{22}$/
+
+/** Split CSV text into rows of fields, following RFC 4180 quoting. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+  const source = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"'
+        i += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i += 1
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+/** Column of each field; Takeout localizes the header, so unknown names fall back to its order. */
+function findColumns(header: string[]): { id: number; url: number; title: number } {
+  const find = (name: string, fallback: number) => {
+    const index = header.findIndex((cell) => cell.trim().toLowerCase() === name)
+    return index < 0 ? fallback : index
+  }
+  return { id: find("channel id", 0), url: find("channel url", 1), title: find("channel title", 2) }
+}
+
+/**
+ * Read the `subscriptions.csv` of a Google Takeout export (Channel Id, Channel
+ * Url, Channel Title) as channel entries, keyed like the channels found on pages.
+ */
+export function parseTakeoutCsv(text: string): BackupParseResult {
+  const rows = parseCsv(text)
+  // The header row is optional, but a first row of data starts with a channel id
+  const hasHeader = rows.length > 0 && !CHANNEL_ID.test(rows[0][0]?.trim() ?? "")
+  const columns = findColumns(hasHeader ? rows[0] : [])
+
+  const channels: ChannelMetaMap = {}
+  let skipped = 0
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const cell = (index: number) => row[index]?.trim() ?? ""
+    const id = CHANNEL_ID.test(cell(columns.id))
+      ? cell(columns.id)
+      : getChannelId(cell(columns.url))
+    if (!id) {
+      skipped += 1
+      continue
+    }
+    channels[canonicalChannelUrl(`https://www.youtube.com/channel/${id}`)] = {
+      name: cell(columns.title),
+    }
+  }
+
+  if (!Object.keys(channels).length) {
+    return { ok: false, error: "The file does not contain any subscriptions." }
+  }
+  return {
+    ok: true,
+    backup: {
+      source: "takeout",
+      schemaVersion: 0,
+      exportedAt: null,
+      extensionVersion: null,
+      settings: { channels },
+      warnings: skipped ? [`${skipped} row(s) without a channel id were skipped.`] : [],
+    },
+  }
+}
+
+// =============================================================================
+// OPML Export
+// =============================================================================
+
+export type TagOpml = {
+  opml: string
+  /** Channels in the outline. */
+  count: number
+  /** Tagged channels left out because only their handle or custom URL is known. */
+  skipped: number
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+export function getChannelFeedUrl(channelId: string): string {
+  return `https://www.youtube.com/feeds/videos.xml?channel_id=${channelId}`
+}
+
+/**
+ * An OPML outline of the RSS feeds of every channel with the tag (or one of
+ * its nested tags), for loading a tag into a feed reader. Feed URLs need the
+ * `UC…` id, which is known once a channel has been seen under its `/channel/` URL.
+ */
+export function createTagOpml(
+  settings: Pick<Settings, "tags" | "channelTags" | "channels">,
+  tagId: string,
+  now = new Date()
+): TagOpml {
+  const tagName = settings.tags.find((tag) => tag.id === tagId)?.name ?? tagId
+  const tagIds = getTagWithDescendants(settings.tags, tagId)
+  const outlines: { name: string; channelId: string }[] = []
+  let skipped = 0
+
+  for (const [url, ids] of Object.entries(settings.channelTags)) {
+    if (!ids.some((id) => tagIds.includes(id))) continue
+    const channelId = getChannelId(url)
+    if (!channelId) {
+      skipped += 1
+      continue
+    }
+    outlines.push({ name: settings.channels[url]?.name || channelId, channelId })
+  }
+  outlines.sort((a, b) => a.name.localeCompare(b.name))
+
+  const title = escapeXml(tagName)
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    "  <head>",
+    `    <title>YouTube Lens: ${title}</title>`,
+    `    <dateCreated>${now.toUTCString()}</dateCreated>`,
+    "  </head>",
+    "  <body>",
+    `    <outline text="${title}" title="${title}">`,
+    ...outlines.map(({ name, channelId }) => {
+      const text = escapeXml(name)
+      const feed = escapeXml(getChannelFeedUrl(channelId))
+      const page = escapeXml(`https://www.youtube.com/channel/${channelId}`)
+      return `      <outline type="rss" text="${text}" title="${text}" xmlUrl="${feed}" htmlUrl="${page}"/>`
+    }),
+    "    </outline>",
+    "  </body>",
+    "</opml>",
+    "",
+  ]
+  return { opml: lines.join("\n"), count: outlines.length, skipped }
+}
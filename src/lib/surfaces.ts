@@ -0,0 +1,112 @@
+import { EMPTY_TAG_FILTER, parseTagFilter, type TagFilter } from "./filters"
+import type { TitleRule } from "./titles"
+import type { ContentTypeFilters, DurationFilter, WatchedFilter } from "./types"
+
+/** YouTube pages whose video cards can be tagged and filtered. */
+export type Surface = "subscriptions" | "home" | "search" | "watch"
+
+/** How cards are laid out: YouTube's order, grouped under tag headers, or by channel name. */
+export type FeedArrangement = "feed" | "tag" | "channel"
+
+/** Filter state kept separately for each surface. */
+export type SurfaceFilter = {
+  enabled: boolean
+  filter: TagFilter
+  contentTypes: ContentTypeFilters
+  watched: WatchedFilter
+  duration: DurationFilter
+  /** Only show videos uploaded within this many days; null shows any age. */
+  maxAgeDays: number | null
+  titleRules: TitleRule[]
+  arrange: FeedArrangement
+}
+
+export type SurfaceFilters = Record<Surface, SurfaceFilter>
+
+export const SURFACES: { id: Surface; label: string }[] = [
+  { id: "subscriptions", label: "Subscriptions" },
+  { id: "home", label: "Home" },
+  { id: "search", label: "Search" },
+  { id: "watch", label: "Watch" },
+]
+
+export const DEFAULT_CONTENT_TYPES: ContentTypeFilters = {
+  videos: true,
+  live: true,
+  upcoming: true,
+  shorts: true,
+}
+
+export const FEED_ARRANGEMENTS: { id: FeedArrangement; label: string }[] = [
+  { id: "feed", label: "Feed order" },
+  { id: "tag", label: "Group by tag" },
+  { id: "channel", label: "Sort by channel" },
+]
+
+export const DEFAULT_WATCHED_FILTER: WatchedFilter = { mode: "all", threshold: 100 }
+
+export const DEFAULT_DURATION_FILTER: DurationFilter = { min: null, max: null }
+
+function defaultSurfaceFilter(enabled: boolean): SurfaceFilter {
+  return {
+    enabled,
+    filter: EMPTY_TAG_FILTER,
+    contentTypes: DEFAULT_CONTENT_TYPES,
+    watched: DEFAULT_WATCHED_FILTER,
+    duration: DEFAULT_DURATION_FILTER,
+    maxAgeDays: null,
+    titleRules: [],
+    arrange: "feed",
+  }
+}
+
+/** Only the subscriptions feed is filtered until other surfaces are switched on. */
+export const DEFAULT_SURFACE_FILTERS: SurfaceFilters = {
+  subscriptions: defaultSurfaceFilter(true),
+  home: defaultSurfaceFilter(false),
+  search: defaultSurfaceFilter(false),
+  watch: defaultSurfaceFilter(false),
+}
+
+export function getSurface(pathname: string): Surface | null {
+  if (pathname === "/feed/subscriptions") return "subscriptions"
+  if (pathname === "/") return "home"
+  if (pathname === "/results") return "search"
+  if (pathname === "/watch") return "watch"
+  return null
+}
+
+/** Fill in missing surfaces and fields of a stored value. */
+export function parseSurfaceFilters(value: unknown): SurfaceFilters {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<
+    Record<Surface, Partial<SurfaceFilter>>
+  >
+  const result = { ...DEFAULT_SURFACE_FILTERS }
+  for (const { id } of SURFACES) {
+    const stored = raw[id]
+    if (!stored) continue
+    result[id] = {
+      enabled: typeof stored.enabled === "boolean" ? stored.enabled : result[id].enabled,
+      filter: parseTagFilter(stored.filter),
+      contentTypes: { ...DEFAULT_CONTENT_TYPES, ...stored.contentTypes },
+      watched: { ...DEFAULT_WATCHED_FILTER, ...stored.watched },
+      duration: { ...DEFAULT_DURATION_FILTER, ...stored.duration },
+      maxAgeDays: typeof stored.maxAgeDays === "number" ? stored.maxAgeDays : null,
+      titleRules: Array.isArray(stored.titleRules) ? stored.titleRules : [],
+      arrange: FEED_ARRANGEMENTS.find(({ id }) => id === stored.arrange)?.id ?? "feed",
+    }
+  }
+  return result
+}
+
+/** Apply the same change to the tag filter of every surface. */
+export function mapSurfaceTagFilters(
+  surfaces: SurfaceFilters,
+  update: (filter: TagFilter) => TagFilter
+): SurfaceFilters {
+  const result = { ...surfaces }
+  for (const { id } of SURFACES) {
+    result[id] = { ...surfaces[id], filter: update(surfaces[id].filter) }
+  }
+  return result
+}
@@ -0,0 +1,184 @@
+import type { ChannelTagMap } from "./channels"
+import type { Tag } from "./types"
+
+/** Colors handed out to new tags, in order. */
+export const TAG_COLORS = [
+  "#ff4d5a",
+  "#7a5cff",
+  "#30c4ff",
+  "#2ecc71",
+  "#ffb020",
+  "#ff7ac6",
+  "#00c2a8",
+  "#9aa0a6",
+]
+
+export function slugify(value: string) {
+  return value.trim().toLowerCase().replace(/\s+/g, "-")
+}
+
+export function uniqueId(base: string, existing: { id: string }[]) {
+  if (!existing.some((t) => t.id === base)) return base
+  let i = 2
+  while (existing.some((t) => t.id === `${base}-${i}`)) i += 1
+  return `${base}-${i}`
+}
+
+/** First palette color not used yet, cycling once every color is taken. */
+export function nextTagColor(tags: Tag[]): string {
+  const used = tags.map((tag) => tag.color.toLowerCase())
+  return (
+    TAG_COLORS.find((color) => !used.includes(color)) ?? TAG_COLORS[tags.length % TAG_COLORS.length]
+  )
+}
+
+/** Move `fromId` to the position currently held by `toId`. */
+export function moveTag(tags: Tag[], fromId: string, toId: string): Tag[] {
+  const from = tags.findIndex((tag) => tag.id === fromId)
+  const to = tags.findIndex((tag) => tag.id === toId)
+  if (from < 0 || to < 0 || from === to) return tags
+  const next = [...tags]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
+
+export function removeTagFromChannels(channelTags: ChannelTagMap, id: string): ChannelTagMap {
+  const next: ChannelTagMap = {}
+  for (const [channel, tagIds] of Object.entries(channelTags)) {
+    next[channel] = tagIds.filter((tagId) => tagId !== id)
+  }
+  return next
+}
+
+/** Reassign every channel tagged `sourceId` to `targetId`. */
+export function mergeTagInto(
+  channelTags: ChannelTagMap,
+  sourceId: string,
+  targetId: string
+): ChannelTagMap {
+  const next: ChannelTagMap = {}
+  for (const [channel, tagIds] of Object.entries(channelTags)) {
+    if (!tagIds.includes(sourceId)) {
+      next[channel] = tagIds
+      continue
+    }
+    const rest = tagIds.filter((tagId) => tagId !== sourceId)
+    next[channel] = rest.includes(targetId) ? rest : [...rest, targetId]
+  }
+  return next
+}
+
+/** Channels carrying a tag, used to restore assignments after an undo. */
+export function getChannelsWithTag(channelTags: ChannelTagMap, id: string): string[] {
+  return Object.entries(channelTags)
+    .filter(([, tagIds]) => tagIds.includes(id))
+    .map(([channel]) => channel)
+}
+
+// =============================================================================
+// Hierarchy
+// =============================================================================
+
+export type TagTreeEntry = {
+  tag: Tag
+  depth: number
+}
+
+function getParent(tags: Tag[], tag: Tag): Tag | undefined {
+  return tag.parentId ? tags.find((t) => t.id === tag.parentId) : undefined
+}
+
+/** A tag's id followed by the ids of all tags nested below it. */
+export function getTagWithDescendants(tags: Tag[], id: string): string[] {
+  const ids = [id]
+  for (let i = 0; i < ids.length; i += 1) {
+    for (const tag of tags) {
+      if (tag.parentId === ids[i] && !ids.includes(tag.id)) ids.push(tag.id)
+    }
+  }
+  return ids
+}
+
+/** Ancestors from the root down, e.g. ["Motorsport", "Racing"] for "MX". */
+export function getTagAncestors(tags: Tag[], id: string): Tag[] {
+  const ancestors: Tag[] = []
+  let current = tags.find((t) => t.id === id)
+  let parent = current ? getParent(tags, current) : undefined
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.unshift(parent)
+    current = parent
+    parent = getParent(tags, current)
+  }
+  return ancestors
+}
+
+export function getTagPath(tags: Tag[], id: string): string {
+  const tag = tags.find((t) => t.id === id)
+  if (!tag) return id
+  return [...getTagAncestors(tags, id), tag].map((t) => t.name).join(" > ")
+}
+
+/**
+ * Tags in tree order: each parent followed by its children, siblings in their
+ * stored order. Tags whose parent is missing are treated as roots.
+ */
+export function flattenTagTree(tags: Tag[]): TagTreeEntry[] {
+  const entries: TagTreeEntry[] = []
+  const visit = (tag: Tag, depth: number) => {
+    if (entries.some((entry) => entry.tag.id === tag.id)) return
+    entries.push({ tag, depth })
+    for (const child of tags) {
+      if (child.parentId === tag.id) visit(child, depth + 1)
+    }
+  }
+  for (const tag of tags) {
+    if (!getParent(tags, tag)) visit(tag, 0)
+  }
+  return entries
+}
+
+/**
+ * Move tags whose parent chain loops back to them to the top level. The UI
+ * never creates such loops, but edited backups and merges from other tabs can,
+ * and looped tags would be missing from the tree.
+ */
+export function breakTagCycles(tags: Tag[]): Tag[] {
+  let next = tags
+  const loops = (id: string) => {
+    const seen = new Set<string>()
+    let parentId = next.find((tag) => tag.id === id)?.parentId
+    while (parentId && !seen.has(parentId)) {
+      if (parentId === id) return true
+      seen.add(parentId)
+      const current = parentId
+      parentId = next.find((tag) => tag.id === current)?.parentId
+    }
+    return false
+  }
+  for (const { id } of tags) {
+    if (loops(id)) next = next.map((tag) => (tag.id === id ? { ...tag, parentId: undefined } : tag))
+  }
+  return next
+}
+
+/** Tags that may become the parent of `id` without creating a cycle. */
+export function getParentCandidates(tags: Tag[], id: string): Tag[] {
+  const blocked = getTagWithDescendants(tags, id)
+  return tags.filter((tag) => !blocked.includes(tag.id))
+}
+
+/** Ids of blocklist tags and every tag nested below one. */
+export function getHideTagIds(tags: Tag[]): string[] {
+  const ids = new Set<string>()
+  for (const tag of tags) {
+    if (!tag.hide) continue
+    for (const id of getTagWithDescendants(tags, tag.id)) ids.add(id)
+  }
+  return [...ids]
+}
+
+/** Move the children of a removed tag up to its own parent. */
+export function reparentChildren(tags: Tag[], id: string, parentId?: string): Tag[] {
+  return tags.map((tag) => (tag.parentId === id ? { ...tag, parentId } : tag))
+}
@@ -0,0 +1,40 @@
+import { compilePattern, testPattern } from "./rules"
+
+/**
+ * A keyword filter on video titles, separate from tags. Plain text matches
+ * anywhere in the title, patterns as regular expressions; both ignore case.
+ */
+export type TitleRule = {
+  id: string
+  text: string
+  regex: boolean
+  mode: "include" | "exclude"
+  enabled: boolean
+}
+
+/** Key under which cards hidden for matching none of the include rules are counted. */
+export const TITLE_INCLUDE_KEY = "__include"
+
+export function matchesTitleRule(rule: TitleRule, title: string): boolean {
+  if (!rule.text) return false
+  if (!rule.regex) return title.toLowerCase().includes(rule.text.toLowerCase())
+  const regex = compilePattern(rule.text)
+  return regex !== null && testPattern(regex, title)
+}
+
+/**
+ * Why a title is hidden: the id of the first exclude rule it matches,
+ * `TITLE_INCLUDE_KEY` when include rules exist and a found title matches none,
+ * or null when it is shown.
+ */
+export function getTitleVerdict(rules: TitleRule[], title: string): string | null {
+  const enabled = rules.filter((rule) => rule.enabled)
+  const excluded = enabled.find((rule) => rule.mode === "exclude" && matchesTitleRule(rule, title))
+  if (excluded) return excluded.id
+  // A card whose title wasn't found can't be shown to lack an included word
+  const includes = title ? enabled.filter((rule) => rule.mode === "include") : []
+  if (includes.length && !includes.some((rule) => matchesTitleRule(rule, title))) {
+    return TITLE_INCLUDE_KEY
+  }
+  return null
+}
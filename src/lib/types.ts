@@ -0,0 +1,31 @@
+export type Tag = {
+  id: string
+  name: string
+  color: string
+  /** Set for nested tags; filtering by a parent also matches its descendants. */
+  parentId?: string
+  /** Blocklist tag: channels carrying it are hidden on every page. */
+  hide?: boolean
+}
+
+export type ContentTypeFilters = {
+  shorts: boolean
+  videos: boolean
+  live: boolean
+  upcoming: boolean
+}
+
+/**
+ * Filtering by YouTube's resume-playback progress. "hide" hides videos watched
+ * at least `threshold` percent; "unwatched" only shows videos never started.
+ */
+export type WatchedFilter = {
+  mode: "all" | "hide" | "unwatched"
+  threshold: number
+}
+
+/** Video length bounds in minutes; null leaves that end open. */
+export type DurationFilter = {
+  min: number | null
+  max: number | null
+}
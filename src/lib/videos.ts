@@ -0,0 +1,73 @@
+/**
+ * How a video's own tags combine with its channel's: "add" keeps the channel's
+ * tags and adds the video's, "override" uses only the video's tags.
+ */
+export type VideoTagMode = "add" | "override"
+
+export type VideoTags = {
+  tags: string[]
+  mode: VideoTagMode
+}
+
+/** Tags set on individual videos, keyed by video id. */
+export type VideoTagMap = Record<string, VideoTags>
+
+const VIDEO_ID = /^[\w-]{11}$/
+
+/** The id of a `/watch?v=…` or `/shorts/…` URL, or null for anything else. */
+export function getVideoId(href: string): string | null {
+  try {
+    const url = new URL(href, "https://www.youtube.com")
+    const id =
+      url.pathname === "/watch"
+        ? url.searchParams.get("v")
+        : url.pathname.match(/^\/shorts\/([^/]+)/)?.[1]
+    return id && VIDEO_ID.test(id) ? id : null
+  } catch {
+    return null
+  }
+}
+
+/** A card's tags once its video's own tags are applied to the channel's. */
+export function applyVideoTags(channelTags: string[], video: VideoTags | undefined): string[] {
+  if (!video) return channelTags
+  if (video.mode === "override") return video.tags
+  return [...channelTags, ...video.tags.filter((id) => !channelTags.includes(id))]
+}
+
+/**
+ * Set a video's entry. Entries that add nothing are dropped; an empty override
+ * is kept since it clears the channel's tags for that video.
+ */
+export function assignVideoTags(
+  videoTags: VideoTagMap,
+  videoId: string,
+  next: VideoTags
+): VideoTagMap {
+  const updated = { ...videoTags }
+  if (next.mode === "add" && next.tags.length === 0) {
+    delete updated[videoId]
+  } else {
+    updated[videoId] = next
+  }
+  return updated
+}
+
+/** Apply `update` to the tag list of every video entry. */
+export function mapVideoTagIds(
+  videoTags: VideoTagMap,
+  update: (tagIds: string[]) => string[]
+): VideoTagMap {
+  const next: VideoTagMap = {}
+  for (const [videoId, video] of Object.entries(videoTags)) {
+    const tags = update(video.tags)
+    if (video.mode === "override" || tags.length > 0) next[videoId] = { ...video, tags }
+  }
+  return next
+}
+
+export function getVideosWithTag(videoTags: VideoTagMap, id: string): string[] {
+  return Object.entries(videoTags)
+    .filter(([, video]) => video.tags.includes(id))
+    .map(([videoId]) => videoId)
+}
@@ -0,0 +1,13 @@
+import React from "react"
+import { createRoot } from "react-dom/client"
+import Dashboard from "./Dashboard"
+import "./styles.css"
+
+const root = document.getElementById("root")
+if (root) {
+  createRoot(root).render(
+    <React.StrictMode>
+      <Dashboard />
+    </React.StrictMode>
+  )
+}
@@ -0,0 +1,108 @@
+type Listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => void
+
+type FakeAreaOptions = {
+  /** Reject items larger than this many bytes, like sync storage does at 8192. */
+  quotaBytesPerItem?: number
+}
+
+export type FakeStorageArea = chrome.storage.StorageArea & {
+  /** Everything stored, as plain JSON values. */
+  items: Record<string, unknown>
+}
+
+export type FakeChromeStorage = {
+  sync: FakeStorageArea
+  local: FakeStorageArea
+  /** Resolves once change events queued so far have reached their listeners. */
+  flush: () => Promise<void>
+}
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+function createArea(
+  name: string,
+  notify: (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => void,
+  { quotaBytesPerItem }: FakeAreaOptions
+): FakeStorageArea {
+  const items: Record<string, unknown> = {}
+
+  const get = async (keys?: string | string[] | Record<string, unknown> | null) => {
+    if (keys === undefined || keys === null) return copy(items)
+    const defaults = typeof keys === "object" && !Array.isArray(keys) ? keys : {}
+    const names = typeof keys === "string" ? [keys] : Array.isArray(keys) ? keys : Object.keys(keys)
+    const result: Record<string, unknown> = {}
+    for (const key of names) {
+      if (key in items) result[key] = copy(items[key])
+      else if (key in defaults) result[key] = defaults[key]
+    }
+    return result
+  }
+
+  const set = async (next: Record<string, unknown>) => {
+    for (const [key, value] of Object.entries(next)) {
+      const size = new TextEncoder().encode(key + JSON.stringify(value)).length
+      if (quotaBytesPerItem !== undefined && size > quotaBytesPerItem) {
+        throw new Error(`QUOTA_BYTES_PER_ITEM quota exceeded for ${key}`)
+      }
+    }
+    const changes: Record<string, chrome.storage.StorageChange> = {}
+    for (const [key, value] of Object.entries(next)) {
+      changes[key] = { oldValue: items[key], newValue: copy(value) }
+      items[key] = copy(value)
+    }
+    notify(changes, name)
+  }
+
+  const remove = async (keys: string | string[]) => {
+    const changes: Record<string, chrome.storage.StorageChange> = {}
+    for (const key of typeof keys === "string" ? [keys] : keys) {
+      if (!(key in items)) continue
+      changes[key] = { oldValue: items[key] }
+      delete items[key]
+    }
+    if (Object.keys(changes).length) notify(changes, name)
+  }
+
+  const clear = async () => {
+    await remove(Object.keys(items))
+  }
+
+  return { items, get, set, remove, clear } as unknown as FakeStorageArea
+}
+
+/**
+ * Install an in-memory `chrome.storage` with sync and local areas. Like the
+ * real thing, change events arrive asynchronously and reach every listener,
+ * including those in the context that wrote.
+ */
+export function installChromeStorage(syncOptions: FakeAreaOptions = {}): FakeChromeStorage {
+  const listeners = new Set<Listener>()
+  let pending: Promise<void> = Promise.resolve()
+
+  const notify = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    pending = pending.then(
+      () =>
+        new Promise<void>((resolve) => {
+          setTimeout(() => {
+            for (const listener of listeners) listener(changes, areaName)
+            resolve()
+          })
+        })
+    )
+  }
+
+  const sync = createArea("sync", notify, syncOptions)
+  const local = createArea("local", notify, {})
+  const onChanged = {
+    addListener: (listener: Listener) => listeners.add(listener),
+    removeListener: (listener: Listener) => listeners.delete(listener),
+    hasListener: (listener: Listener) => listeners.has(listener),
+  }
+
+  ;(globalThis as { chrome?: unknown }).chrome = { storage: { sync, local, onChanged } }
+  return { sync, local, flush: () => pending }
+}
+
+export function uninstallChromeStorage(): void {
+  ;(globalThis as { chrome?: unknown }).chrome = undefined
+}
@@ -0,0 +1,43 @@
+import { type Mock, vi } from "vitest"
+import channelHeaderC4 from "./fixtures/channel-header-c4.html?raw"
+import channelHeaderPage from "./fixtures/channel-header-page.html?raw"
+import liveUpcoming from "./fixtures/live-upcoming.html?raw"
+import shortsShelf from "./fixtures/shorts-shelf.html?raw"
+import subscriptionsGrid from "./fixtures/subscriptions-grid.html?raw"
+
+/** Saved YouTube markup, trimmed to what the content script reads. */
+export const FIXTURES = {
+  subscriptionsGrid,
+  shortsShelf,
+  liveUpcoming,
+  channelHeaderC4,
+  channelHeaderPage,
+}
+
+/** Replace the page with `html` at `path`, as if YouTube had just navigated there. */
+export function loadPage(html: string, path = "/feed/subscriptions"): void {
+  window.history.replaceState(null, "", path)
+  document.head.innerHTML = ""
+  document.body.innerHTML = html
+}
+
+export function getCard(id: string): HTMLElement {
+  const card = document.getElementById(id)
+  if (!card) throw new Error(`No fixture card with id ${id}`)
+  return card
+}
+
+const listeners: [string, EventListener][] = []
+
+/** A mock listening for `type` window events until `removeListeners` runs. */
+export function listen(type: string): Mock<(event: CustomEvent) => void> {
+  const listener = vi.fn<(event: CustomEvent) => void>()
+  const handler = (event: Event) => listener(event as CustomEvent)
+  window.addEventListener(type, handler)
+  listeners.push([type, handler])
+  return listener
+}
+
+export function removeListeners(): void {
+  for (const [type, listener] of listeners.splice(0)) window.removeEventListener(type, listener)
+}
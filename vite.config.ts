@@ -2,21 +2,39 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import { resolve } from "path";
 
-export default defineConfig({
+// The content script must be a single iife file, which rollup can't emit
+// alongside other entries, so the options page is a separate build:
+// `vite build --mode options`
+export default defineConfig(({ mode }) => ({
   plugins: [react()],
-  build: {
-    outDir: "dist",
-    emptyOutDir: true,
-    cssCodeSplit: false,
-    rollupOptions: {
-      input: {
-        content: resolve(__dirname, "src/content.tsx")
-      },
-      output: {
-        entryFileNames: "content.js",
-        assetFileNames: "content.css",
-        format: "iife"
-      }
-    }
-  }
-});
+  build:
+    mode === "options"
+      ? {
+          outDir: "dist",
+          emptyOutDir: false,
+          rollupOptions: {
+            input: {
+              options: resolve(__dirname, "options.html")
+            },
+            output: {
+              entryFileNames: "options.js",
+              assetFileNames: "options.css"
+            }
+          }
+        }
+      : {
+          outDir: "dist",
+          emptyOutDir: true,
+          cssCodeSplit: false,
+          rollupOptions: {
+            input: {
+              content: resolve(__dirname, "src/content.tsx")
+            },
+            output: {
+              entryFileNames: "content.js",
+              assetFileNames: "content.css",
+              format: "iife"
+            }
+          }
+        }
+}));
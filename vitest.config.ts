@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config"
+
+// Content script units run against saved YouTube markup in jsdom, on a
+// youtube.com URL so channel links resolve like they do in the browser
+export default defineConfig({
+  test: {
+    environment: "jsdom",
+    environmentOptions: {
+      jsdom: { url: "https://www.youtube.com/feed/subscriptions" },
+    },
+    include: ["src/**/*.test.ts"],
+  },
+})